@@ -2,8 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { createContext, useContext, useState, useMemo } from 'react';
+import React, { createContext, useContext, useState, useMemo, useCallback, useEffect, useLayoutEffect } from 'react';
 import { useBreakpoint, Breakpoint } from './hooks/useBreakpoint.tsx';
+import { useButtonVariants, ButtonVariantColors } from './hooks/useButtonVariants.tsx';
+import { useSystemColorScheme, ColorScheme } from './hooks/useColorScheme.tsx';
+import { reportTokenIssue } from './hooks/useTokenValidator.tsx';
+import type { Responsive, SusButtonBadgeTone } from './types/index.tsx';
 
 // --- DESIGN TOKENS (Tier 2, System Prompt) ---
 
@@ -15,15 +19,16 @@ const lightThemeColors = {
   Color: {
     Base: {
       Surface: { '1': '#FFFFFF', '2': '#F8FAFC', '3': '#F1F5F9' }, // White, Slate-50, Slate-100
-      Content: { '1': '#0F172A', '2': '#475569', '3': '#94A3B8' }  // Slate-900, Slate-600, Slate-400
+      Content: { '1': '#0F172A', '2': '#475569', '3': '#94A3B8' }, // Slate-900, Slate-600, Slate-400
+      Border: { '1': '#CBD5E1' }                                   // Slate-300
     },
     Accent: {
-      Surface: { '1': '#0F172A', '2': '#E2E8F0' }, // Slate-900 (Black-ish), Slate-200
+      Surface: { '1': '#0F172A', '2': '#E2E8F0', '3': '#334155' }, // Slate-900 (Black-ish), Slate-200, Slate-700
       Content: { '1': '#FFFFFF', '2': '#0F172A' }  // White, Slate-900
     },
-    Success: { Surface: { '1': '#DCFCE7' }, Content: { '1': '#166534' } }, // Green-100, Green-800
+    Success: { Surface: { '1': '#DCFCE7', '2': '#10B981', '3': '#059669' }, Content: { '1': '#166534', '2': '#FFFFFF' } }, // Green-100, Emerald-500, Emerald-600 / Green-800, White
     Warning: { Surface: { '1': '#FEF9C3' }, Content: { '1': '#854D0E' } }, // Yellow-100, Yellow-800
-    Error: { Surface: { '1': '#FEE2E2' }, Content: { '1': '#991B1B' } },   // Red-100, Red-800
+    Error: { Surface: { '1': '#FEE2E2', '2': '#EF4444', '3': '#DC2626' }, Content: { '1': '#991B1B', '2': '#FFFFFF' } },     // Red-100, Red-500, Red-600 / Red-800, White
     Focus: { Surface: { '1': '#EFF6FF' }, Content: { '1': '#1D4ED8' } },   // Blue-50, Blue-700
     Signal: { Surface: { '1': '#F3E8FF' }, Content: { '1': '#7E22CE' } }   // Purple-100, Purple-700
   }
@@ -33,20 +38,137 @@ const darkThemeColors = {
   Color: {
     Base: {
       Surface: { '1': '#020617', '2': '#0F172A', '3': '#1E293B' }, // Slate-950, Slate-900, Slate-800
-      Content: { '1': '#F8FAFC', '2': '#94A3B8', '3': '#475569' }  // Slate-50, Slate-400, Slate-600
+      Content: { '1': '#F8FAFC', '2': '#94A3B8', '3': '#475569' }, // Slate-50, Slate-400, Slate-600
+      Border: { '1': '#475569' }                                   // Slate-600
     },
     Accent: {
-      Surface: { '1': '#F8FAFC', '2': '#334155' }, // Slate-50 (White-ish), Slate-700
+      Surface: { '1': '#F8FAFC', '2': '#334155', '3': '#E2E8F0' }, // Slate-50 (White-ish), Slate-700, Slate-200
       Content: { '1': '#0F172A', '2': '#F8FAFC' }  // Slate-900, Slate-50
     },
-    Success: { Surface: { '1': '#052E16' }, Content: { '1': '#4ADE80' } }, // Green-950, Green-400
+    Success: { Surface: { '1': '#052E16', '2': '#166534', '3': '#14532D' }, Content: { '1': '#4ADE80', '2': '#FFFFFF' } }, // Green-950, Green-800, Green-900 / Green-400, White
     Warning: { Surface: { '1': '#422006' }, Content: { '1': '#FACC15' } }, // Yellow-950, Yellow-400
-    Error: { Surface: { '1': '#450A0A' }, Content: { '1': '#F87171' } },   // Red-950, Red-400
+    Error: { Surface: { '1': '#450A0A', '2': '#991B1B', '3': '#7F1D1D' }, Content: { '1': '#F87171', '2': '#FFFFFF' } },     // Red-950, Red-800, Red-900 / Red-400, White
     Focus: { Surface: { '1': '#172554' }, Content: { '1': '#60A5FA' } },   // Blue-950, Blue-400
     Signal: { Surface: { '1': '#3B0764' }, Content: { '1': '#C084FC' } }   // Purple-950, Purple-400
   }
 };
 
+// --- COMPONENT TOKENS (Tier 3) ---
+// Each component state points at a semantic Color token ('{Color.Accent.Surface.1}').
+// Light and dark get their own mapping because the same role lands on different steps.
+type ColorRef = string; // '{Color.<path>}' alias or a literal like 'transparent'
+
+interface ButtonVariantTokens {
+  Surface: { Default: ColorRef; Hover: ColorRef; Pressed: ColorRef };
+  Content: { Default: ColorRef };
+  Border: { Default: ColorRef };
+}
+
+interface BadgeToneTokens {
+  Surface: { Default: ColorRef };
+  Content: { Default: ColorRef };
+}
+
+const lightComponentTokens = {
+  Button: {
+    primary: {
+      Surface: { Default: '{Color.Accent.Surface.1}', Hover: '{Color.Accent.Surface.3}', Pressed: '{Color.Accent.Surface.3}' },
+      Content: { Default: '{Color.Accent.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+    secondary: {
+      Surface: { Default: '{Color.Base.Surface.3}', Hover: '{Color.Accent.Surface.2}', Pressed: '{Color.Accent.Surface.2}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+    tertiary: {
+      Surface: { Default: 'transparent', Hover: '{Color.Base.Surface.2}', Pressed: '{Color.Base.Surface.3}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: '{Color.Base.Border.1}' },
+    },
+    ghost: {
+      Surface: { Default: 'transparent', Hover: '{Color.Accent.Surface.2}', Pressed: '{Color.Accent.Surface.2}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+    success: {
+      Surface: { Default: '{Color.Success.Surface.2}', Hover: '{Color.Success.Surface.3}', Pressed: '{Color.Success.Surface.3}' },
+      Content: { Default: '{Color.Success.Content.2}' },
+      Border: { Default: 'transparent' },
+    },
+    fail: {
+      Surface: { Default: '{Color.Error.Surface.2}', Hover: '{Color.Error.Surface.3}', Pressed: '{Color.Error.Surface.3}' },
+      Content: { Default: '{Color.Error.Content.2}' },
+      Border: { Default: 'transparent' },
+    },
+  } as Record<string, ButtonVariantTokens>,
+  // Button badges (counters, dots, "New") speak the feedback colors
+  Badge: {
+    error: { Surface: { Default: '{Color.Error.Surface.2}' }, Content: { Default: '{Color.Error.Content.2}' } },
+    signal: { Surface: { Default: '{Color.Signal.Content.1}' }, Content: { Default: '{Color.Base.Surface.1}' } },
+    success: { Surface: { Default: '{Color.Success.Surface.2}' }, Content: { Default: '{Color.Success.Content.2}' } },
+  } as Record<SusButtonBadgeTone, BadgeToneTokens>,
+};
+
+const darkComponentTokens: typeof lightComponentTokens = {
+  Button: {
+    ...lightComponentTokens.Button,
+    primary: {
+      Surface: { Default: '{Color.Accent.Surface.1}', Hover: '{Color.Accent.Surface.3}', Pressed: '{Color.Accent.Surface.3}' },
+      Content: { Default: '{Color.Accent.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+    secondary: {
+      Surface: { Default: '{Color.Accent.Surface.2}', Hover: '{Color.Base.Content.3}', Pressed: '{Color.Base.Content.3}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+    tertiary: {
+      Surface: { Default: 'transparent', Hover: '{Color.Base.Surface.3}', Pressed: '{Color.Accent.Surface.2}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: '{Color.Base.Border.1}' },
+    },
+    ghost: {
+      Surface: { Default: 'transparent', Hover: '{Color.Accent.Surface.2}', Pressed: '{Color.Accent.Surface.2}' },
+      Content: { Default: '{Color.Base.Content.1}' },
+      Border: { Default: 'transparent' },
+    },
+  },
+  Badge: {
+    ...lightComponentTokens.Badge,
+    signal: { Surface: { Default: '{Color.Signal.Content.1}' }, Content: { Default: '{Color.Signal.Surface.1}' } },
+  },
+};
+
+export const componentTokenRefs = { light: lightComponentTokens, dark: darkComponentTokens };
+
+// Looks up '{Color.Accent.Surface.1}' inside a color set. Literals pass straight through;
+// an unknown reference paints nothing and goes to the token validator like an unknown token() path.
+const resolveColorRef = (ref: ColorRef, colors: typeof lightThemeColors): string => {
+  const match = /^\{(.+)\}$/.exec(ref);
+  if (!match) return ref;
+  const value = match[1].split('.').reduce<any>((node, key) => node?.[key], colors);
+  if (typeof value !== 'string') {
+    reportTokenIssue({ kind: 'unknown', path: match[1] });
+    return 'transparent';
+  }
+  return value;
+};
+
+// Runtime-registered variants speak a flat shape; lift it into the component token shape.
+const toButtonVariantTokens = (colors: ButtonVariantColors): ButtonVariantTokens => ({
+  Surface: { Default: colors.surface, Hover: colors.hover, Pressed: colors.pressed ?? colors.hover },
+  Content: { Default: colors.content },
+  Border: { Default: colors.border ?? 'transparent' },
+});
+
+const resolveComponentTokens = <T,>(refs: T, colors: typeof lightThemeColors): T => {
+  if (typeof refs === 'string') return resolveColorRef(refs, colors) as T;
+  const resolved: { [key: string]: any } = {};
+  for (const key in refs) resolved[key] = resolveComponentTokens(refs[key], colors);
+  return resolved as T;
+};
+
 const typography = {
   Type: {
     Expressive: {
@@ -84,7 +206,8 @@ const typography = {
   }
 };
 
-const spacing = { 'Space.XS': px(Base.Unit.Space * 1), 'Space.S': px(Base.Unit.Space * 2), 'Space.M': px(Base.Unit.Space * 3), 'Space.L': px(Base.Unit.Space * 4), 'Space.XL': px(Base.Unit.Space * 6), 'Space.XXL': px(Base.Unit.Space * 8), 'Space.XXXL': px(Base.Unit.Space * 12) };
+const buildSpacing = (unit: number) => ({ 'Space.XS': px(unit * 1), 'Space.S': px(unit * 2), 'Space.M': px(unit * 3), 'Space.L': px(unit * 4), 'Space.XL': px(unit * 6), 'Space.XXL': px(unit * 8), 'Space.XXXL': px(unit * 12) });
+const spacing = buildSpacing(Base.Unit.Space);
 const radius = { 'Radius.S': '6px', 'Radius.M': '8px', 'Radius.L': '12px', 'Radius.XL': '16px', 'Radius.Full': '9999px' };
 const effects = { 
   'Effect.Shadow.Drop.1': '0 1px 2px 0 rgb(0 0 0 / 0.05)', 
@@ -94,16 +217,115 @@ const effects = {
 };
 const time = { 'Time.1x': `${Base.Unit.Time * 1}ms`, 'Time.2x': `${Base.Unit.Time * 2}ms`, 'Time.3x': `${Base.Unit.Time * 3}ms`, 'Time.4x': `${Base.Unit.Time * 4}ms`, 'Time.Subtle.1': `${Base.Unit.Time * 1 + 50}ms`, 'Time.Subtle.2': `${Base.Unit.Time * 2 + 50}ms` };
 
-const rawTheme = { Type: typography.Type, spacing, radius, effects, time };
+// Everything but color, before responsive values are picked (token exporters read this)
+export const rawTheme = { Type: typography.Type, spacing, radius, effects, time };
 
-const themes = { light: lightThemeColors, dark: darkThemeColors };
+// Partial replacements for the non-color tokens, e.g. from a design-tool import.
+// Type styles take the same (optionally responsive) fields as the built-in ones.
+export interface TokenOverrides {
+  spacing?: Partial<Record<keyof typeof spacing, string>>;
+  radius?: Partial<Record<keyof typeof radius, string>>;
+  Type?: Record<string, any>;
+}
+
+// Leaves (and responsive objects, which count as one value) from `overrides` replace those in `base`
+const mergeTokens = (base: any, overrides: any): any => {
+  if (!overrides) return base;
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = typeof value === 'object' && value !== null && !isResponsiveObject(value) && typeof base?.[key] === 'object'
+      ? mergeTokens(base[key], value)
+      : value;
+  }
+  return merged;
+};
+
+// --- DENSITY ---
+// One factor for the space unit and for component sizing, so a compact screen keeps its proportions.
+// Type and radius stay put: density is about how much fits, not how things look.
+
+export type Density = 'compact' | 'comfortable' | 'touch';
+
+export const DENSITY_SCALE: Record<Density, number> = { compact: 0.75, comfortable: 1, touch: 1.25 };
+
+// Every px length in a CSS value, scaled and rounded: scaleByDensity('10px 20px', 'compact') → '8px 15px'
+export const scaleByDensity = (value: string, density: Density) => {
+  const scale = DENSITY_SCALE[density];
+  if (scale === 1) return value;
+  return value.replace(/(\d*\.?\d+)px/g, (_, amount) => px(Math.round(Number(amount) * scale)));
+};
+
+// rawTheme is the comfortable set; the others only swap the spacing scale (unit 3 / 4 / 5px).
+// Overridden spacing (an import) counts as the comfortable value and scales along with it.
+const densityTokens = (density: Density, overrides: TokenOverrides | null): typeof rawTheme => {
+  const base = density === 'comfortable' ? rawTheme : { ...rawTheme, spacing: buildSpacing(Base.Unit.Space * DENSITY_SCALE[density]) };
+  if (!overrides?.spacing || density === 'comfortable') return mergeTokens(base, overrides);
+  const spacing = Object.fromEntries(Object.entries(overrides.spacing).map(([key, value]) => [key, value && scaleByDensity(value, density)]));
+  return mergeTokens(base, { ...overrides, spacing });
+};
+
+const themes = {
+  light: { ...lightThemeColors, Component: resolveComponentTokens(lightComponentTokens, lightThemeColors) },
+  dark: { ...darkThemeColors, Component: resolveComponentTokens(darkComponentTokens, darkThemeColors) },
+};
+
+// --- BRANDS ---
+// A brand is a full color set per mode. Component tokens are shared: they alias semantic
+// colors, so a brand only has to say what '{Color.Accent.Surface.1}' means for it.
+
+export type ThemeColors = typeof lightThemeColors;
+
+export interface BrandThemeDefinition {
+  label?: string; // Shown in pickers, defaults to the capitalised name
+  light: ThemeColors;
+  dark: ThemeColors;
+}
+
+export const DEFAULT_BRAND = 'sus';
+
+// The built-in Slate palettes, handy as a starting point for a brand ({ ...defaultThemeColors.light, ... })
+export const defaultThemeColors: Record<ColorScheme, ThemeColors> = { light: lightThemeColors, dark: darkThemeColors };
+
+const defaultBrand: BrandThemeDefinition = { label: 'SUS Slate', ...defaultThemeColors };
+
+// Every color path the built-in light palette defines, e.g. 'Color.Base.Surface.1'
+const colorPaths = (node: any, prefix = ''): string[] => {
+  return Object.entries(node).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'object' && value !== null ? colorPaths(value, path) : [path];
+  });
+};
+
+const REQUIRED_COLOR_PATHS = colorPaths(lightThemeColors);
+
+// Paths a brand is missing (or has as something other than a non-empty string), e.g. 'dark.Color.Focus.Content.1'
+export const validateBrandTheme = (definition: Partial<BrandThemeDefinition>): string[] => {
+  return (['light', 'dark'] as ColorScheme[]).flatMap(mode =>
+    REQUIRED_COLOR_PATHS
+      .filter(path => {
+        const value = path.split('.').reduce<any>((node, key) => node?.[key], definition[mode]);
+        return typeof value !== 'string' || !value.trim();
+      })
+      .map(path => `${mode}.${path}`)
+  );
+};
+
+export const getBrandLabel = (name: string, brands: Record<string, BrandThemeDefinition>) => {
+  return brands[name]?.label ?? name.charAt(0).toUpperCase() + name.slice(1);
+};
 
 // --- LOGIC FOR CREATING A "SMART" THEME ---
 
-const isResponsiveObject = (value: any): value is { [key in Breakpoint]?: any } => {
+export const isResponsiveObject = (value: any): value is { [key in Breakpoint]?: any } => {
   return value && typeof value === 'object' && ('mobile' in value || 'tablet' in value || 'desktop' in value);
 };
 
+// Picks the value for a breakpoint, falling back to the widest one that is set.
+export const resolveResponsive = <T,>(value: Responsive<T>, breakpoint: Breakpoint): T => {
+  if (!isResponsiveObject(value)) return value as T;
+  return value[breakpoint] ?? value.desktop ?? value.tablet ?? value.mobile;
+};
+
 // Recursively traverses the theme tokens and resolves any responsive values.
 const resolveTokens = (obj: any, breakpoint: Breakpoint): any => {
   const resolved: { [key: string]: any } = {};
@@ -111,7 +333,7 @@ const resolveTokens = (obj: any, breakpoint: Breakpoint): any => {
     if (Object.prototype.hasOwnProperty.call(obj, key)) {
       const value = obj[key];
       if (isResponsiveObject(value)) {
-        resolved[key] = value[breakpoint] ?? value.desktop ?? value.tablet ?? value.mobile;
+        resolved[key] = resolveResponsive(value, breakpoint);
       } else if (typeof value === 'object' && value !== null) {
         resolved[key] = resolveTokens(value, breakpoint);
       } else {
@@ -124,15 +346,70 @@ const resolveTokens = (obj: any, breakpoint: Breakpoint): any => {
 
 // --- GLOBAL STYLES & THEME PROVIDER ---
 
-const GlobalStyles = () => {
-    const { theme } = useTheme();
+// --- CSS CUSTOM PROPERTIES ---
+// The whole token tree also lives in CSS variables: every theme under its own [data-theme]
+// selector, responsive values behind the same widths useBreakpoint uses. They serve the styles
+// React doesn't render (GlobalStyles, the page background, plain CSS), where a theme or breakpoint
+// switch only swaps which values apply. Components still read resolved values from useTheme().
+
+// Flat groups already carry their name in each key ('Space.L'), so 'spacing.Space.L' and 'Space.L' agree
+const FLAT_GROUPS = ['spacing', 'radius', 'effects', 'time'];
+
+// 'Color.Base.Surface.1' → '--color-base-surface-1', 'spacing.Space.L' → '--space-l', 'fontSize' → 'font-size'
+export const cssVarName = (path: string) => {
+  const parts = path.split('.');
+  if (FLAT_GROUPS.includes(parts[0])) parts.shift();
+  return `--${parts.map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()).join('-')}`;
+};
+
+// cssVar('Color.Base.Surface.1') → 'var(--color-base-surface-1)', ready to drop into a style
+export const cssVar = (path: string, fallback?: string) => {
+  return `var(${cssVarName(path)}${fallback ? `, ${fallback}` : ''})`;
+};
+
+// Token tree → { '--color-base-surface-1': '#FFFFFF', ... }. Typography's 'tag' is markup, not style.
+const toCssVariables = (tokens: any, prefix = ''): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tokens)) {
+    if (key === 'tag') continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'object' && value !== null) Object.assign(variables, toCssVariables(value, path));
+    else variables[cssVarName(path)] = String(value);
+  }
+  return variables;
+};
+
+const cssBlock = (selector: string, variables: Record<string, string>) => {
+  const lines = Object.entries(variables).map(([name, value]) => `  ${name}: ${value};`);
+  return lines.length ? `${selector} {\n${lines.join('\n')}\n}` : '';
+};
+
+// Only what changes from the next-wider breakpoint goes in each media block
+const changedVariables = (variables: Record<string, string>, wider: Record<string, string>) => {
+  return Object.fromEntries(Object.entries(variables).filter(([name, value]) => wider[name] !== value));
+};
+
+const buildTokenCss = (colorThemes: Record<ColorScheme, ColorTheme>, baseTokens: typeof rawTheme) => {
+  const desktop = toCssVariables(resolveTokens(baseTokens, 'desktop'));
+  const tablet = toCssVariables(resolveTokens(baseTokens, 'tablet'));
+  const mobile = toCssVariables(resolveTokens(baseTokens, 'mobile'));
+  return [
+    cssBlock(':root', desktop),
+    `@media (max-width: 1023px) {\n${cssBlock(':root', changedVariables(tablet, desktop))}\n}`,
+    `@media (max-width: 767px) {\n${cssBlock(':root', changedVariables(mobile, tablet))}\n}`,
+    ...(['light', 'dark'] as ColorScheme[]).map(mode => cssBlock(`:root[data-theme="${mode}"]`, toCssVariables(colorThemes[mode]))),
+  ].join('\n');
+};
+
+const GlobalStyles = ({ tokenCss }: { tokenCss: string }) => {
     const globalCss = `
+      ${tokenCss}
       *, *::before, *::after { box-sizing: border-box; }
       html, body, #root { 
         height: 100%; 
         margin: 0; 
         padding: 0; 
-        font-family: ${theme.Type.Readable.Body.M.fontFamily}; 
+        font-family: ${cssVar('Type.Readable.Body.M.fontFamily')}; 
         -webkit-font-smoothing: antialiased; 
         -moz-osx-font-smoothing: grayscale; 
         text-rendering: optimizeLegibility; 
@@ -143,8 +420,8 @@ const GlobalStyles = () => {
       /* Custom Scrollbar for Webkit */
       ::-webkit-scrollbar { width: 6px; height: 6px; }
       ::-webkit-scrollbar-track { background: transparent; }
-      ::-webkit-scrollbar-thumb { background: ${theme.Color.Base.Surface[3]}; borderRadius: 3px; }
-      ::-webkit-scrollbar-thumb:hover { background: ${theme.Color.Base.Content[3]}; }
+      ::-webkit-scrollbar-thumb { background: ${cssVar('Color.Base.Surface.3')}; borderRadius: 3px; }
+      ::-webkit-scrollbar-thumb:hover { background: ${cssVar('Color.Base.Content.3')}; }
     `;
     return <style>{globalCss}</style>;
 };
@@ -157,40 +434,332 @@ type Resolved<T> = T extends { mobile: any } | { tablet: any } | { desktop: any
 
 type ResolvedRawTheme = Resolved<typeof rawTheme>;
 
+// --- TOKEN PATHS ---
+// token('spacing.Space.L') instead of theme.spacing['Space.L']: the path is checked at compile
+// time, and at runtime anything unknown or deprecated is reported instead of quietly undefined.
+
+type TokenTree = ResolvedRawTheme & { Color: ThemeColors['Color'] };
+
+type JoinPath<P extends string, K extends string> = P extends '' ? K : `${P}.${K}`;
+type PathKey<T> = Exclude<keyof T, 'tag'> & string;
+
+// Every leaf, plus whole Type styles ('Type.Readable.Body.M' hands back the style object)
+type TokenPaths<T, P extends string = ''> = {
+  [K in PathKey<T>]: T[K] extends { fontSize: unknown }
+    ? JoinPath<P, K> | TokenPaths<T[K], JoinPath<P, K>>
+    : T[K] extends object
+    ? TokenPaths<T[K], JoinPath<P, K>>
+    : JoinPath<P, K>;
+}[PathKey<T>];
+
+export type TokenPath = TokenPaths<TokenTree>;
+
+// Old path → new path. A renamed token stays here for a while: old call sites keep working
+// (and type-checking) but get reported, e.g. { 'spacing.Space.XXS': 'spacing.Space.XS' }.
+// The standing entries are the bare flat keys theme.spacing['Space.L'] was read with:
+// token('Space.L') still resolves, and points at 'spacing.Space.L'.
+type FlatGroup = 'spacing' | 'radius' | 'effects' | 'time';
+type FlatTokenPath = { [G in FlatGroup]: `${G}.${keyof ResolvedRawTheme[G] & string}` }[FlatGroup];
+type FlatKeyOf<P> = P extends `${FlatGroup}.${infer K}` ? K : never;
+
+export const TOKEN_DEPRECATIONS = Object.fromEntries(
+  FLAT_GROUPS.flatMap(group => Object.keys((rawTheme as any)[group]).map(key => [key, `${group}.${key}`]))
+) as { readonly [P in FlatTokenPath as FlatKeyOf<P>]: P };
+export type DeprecatedTokenPath = keyof typeof TOKEN_DEPRECATIONS;
+
+// Flat groups ('spacing') take the rest of the path as one key ('Space.L'), like cssVarName
+type TokenValueAt<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? TokenValueAt<T[K], Rest> : never
+  : never;
+
+export type TokenValue<P extends TokenPath | DeprecatedTokenPath> = TokenValueAt<
+  TokenTree,
+  P extends DeprecatedTokenPath ? (typeof TOKEN_DEPRECATIONS)[P] : P
+>;
+
+export type TokenAccessor = <P extends TokenPath | DeprecatedTokenPath>(path: P) => TokenValue<P>;
+
+const lookupToken = (theme: Theme, path: string): any => {
+  const [group, ...rest] = path.split('.');
+  if (group !== 'Color' && !Object.hasOwn(rawTheme, group)) return undefined; // Component tokens aren't part of the public paths
+  const keys = FLAT_GROUPS.includes(group) ? [rest.join('.')] : rest;
+  const value = keys.reduce((node: any, key) => (key !== 'tag' && node && Object.hasOwn(node, key) ? node[key] : undefined), (theme as any)[group]);
+  // Groups and tiers are not tokens; Type styles are
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return typeof value === 'object' && value !== null && 'fontSize' in value ? value : undefined;
+};
+
+// The accessor the context hands out, bound to one resolved theme
+export const getToken = (theme: Theme, path: string): any => {
+  if (path in TOKEN_DEPRECATIONS) {
+    const replacement: string = (TOKEN_DEPRECATIONS as Record<string, string>)[path];
+    reportTokenIssue({ kind: 'deprecated', path, replacement });
+    return lookupToken(theme, replacement);
+  }
+  const value = lookupToken(theme, path);
+  if (value === undefined) reportTokenIssue({ kind: 'unknown', path });
+  return value;
+};
 
-type ThemeName = 'light' | 'dark';
+
+// 'system' follows prefers-color-scheme; the theme itself is always one of the two color sets
+export type ThemeName = ColorScheme | 'system';
 type ThemeContextType = {
   themeName: ThemeName;
+  resolvedThemeName: ColorScheme;
   setThemeName: (themeName: ThemeName) => void;
-  theme: typeof lightThemeColors & ResolvedRawTheme;
+  brandName: string;
+  setBrandName: (brandName: string) => void;
+  brands: Record<string, BrandThemeDefinition>;
+  // Returns the problems found; the brand is only registered when the list is empty
+  registerBrand: (name: string, definition: BrandThemeDefinition) => string[];
+  unregisterBrand: (name: string) => void;
+  tokenOverrides: TokenOverrides | null;
+  setTokenOverrides: (overrides: TokenOverrides | null) => void;
+  // What the responsive tokens were resolved for: the window's, or a ResponsiveContainer's own
+  breakpoint: Breakpoint;
+  density: Density;
+  setDensity: (density: Density) => void;
+  theme: Theme;
+  // Typed lookup into `theme`: token('spacing.Space.L'), token('Color.Base.Content.1')
+  token: TokenAccessor;
+};
+
+// Also read by the inline script in index.html, which paints the right background before React loads
+export const THEME_STORAGE_KEY = 'sus-theme';
+
+const isThemeName = (value: unknown): value is ThemeName => {
+  return value === 'light' || value === 'dark' || value === 'system';
+};
+
+const readStoredThemeName = (): ThemeName | null => {
+  try {
+    const stored = window.localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemeName(stored) ? stored : null;
+  } catch {
+    return null; // Storage blocked (private mode, sandboxed iframe)
+  }
+};
+
+const storeThemeName = (themeName: ThemeName) => {
+  try {
+    window.localStorage.setItem(THEME_STORAGE_KEY, themeName);
+  } catch {
+    // Nothing to do: the choice just won't survive a reload
+  }
+};
+
+export type Theme = (typeof themes)['light'] & ResolvedRawTheme;
+type ColorTheme = Omit<Theme, keyof ResolvedRawTheme>;
+
+// One mode of a brand, with the registered Button variants joining the built-in component tokens
+const buildColorTheme = (
+  brands: Record<string, BrandThemeDefinition>,
+  brandName: string,
+  mode: ColorScheme,
+  customVariants: ReturnType<typeof useButtonVariants>['customVariants'],
+): ColorTheme => {
+  const brandColors = brands[brandName][mode];
+  const colorTheme = brandName === DEFAULT_BRAND
+    ? themes[mode]
+    : { ...brandColors, Component: resolveComponentTokens(componentTokenRefs[mode], brandColors) };
+
+  const customButtons: Record<string, ButtonVariantTokens> = {};
+  for (const [name, definition] of Object.entries(customVariants)) {
+    customButtons[name] = resolveComponentTokens(toButtonVariantTokens(definition[mode]), colorTheme);
+  }
+  return { ...colorTheme, Component: { ...colorTheme.Component, Button: { ...colorTheme.Component.Button, ...customButtons } } };
 };
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-export const ThemeProvider = ({ children }: React.PropsWithChildren) => {
-  const [themeName, setThemeName] = useState<ThemeName>('light'); // Default to light for doc style
+interface ThemeProviderProps {
+  // Root only: brands available from the start (more can be registered later). Any that fail
+  // validateBrandTheme are left out; registerBrand hands back the problems instead.
+  brands?: Record<string, BrandThemeDefinition>;
+  // Nested only: pin the subtree's mode, brand, density or individual tokens; whatever is left out follows the parent
+  mode?: ThemeName;
+  brand?: string;
+  density?: Density;
+  tokens?: TokenOverrides;
+}
+
+/**
+ * The outermost ThemeProvider owns the app: the user's mode and brand, the brand registry,
+ * the global styles and the CSS variables on :root. Any ThemeProvider inside it is a scope
+ * that re-themes just its children (a dark card on a light page, side-by-side previews).
+ */
+export const ThemeProvider = (props: React.PropsWithChildren<ThemeProviderProps>) => {
+  const parent = useContext(ThemeContext);
+  return parent ? <ThemeScope {...props} parent={parent} /> : <RootThemeProvider {...props} />;
+};
+
+const RootThemeProvider = ({ brands: initialBrands = {}, children }: React.PropsWithChildren<ThemeProviderProps>) => {
+  const [themeName, setThemeNameState] = useState<ThemeName>(() => readStoredThemeName() ?? 'light'); // Default to light for doc style
+  const systemColorScheme = useSystemColorScheme();
+  const resolvedThemeName: ColorScheme = themeName === 'system' ? systemColorScheme : themeName;
   const breakpoint = useBreakpoint();
 
+  const [customBrands, setCustomBrands] = useState<Record<string, BrandThemeDefinition>>(() => {
+    const valid: Record<string, BrandThemeDefinition> = {};
+    for (const [name, definition] of Object.entries<BrandThemeDefinition>(initialBrands)) {
+      if (!validateBrandTheme(definition).length) valid[name] = definition;
+    }
+    return valid;
+  });
+  const brands = useMemo(() => ({ [DEFAULT_BRAND]: defaultBrand, ...customBrands }), [customBrands]);
+  const [selectedBrand, setBrandName] = useState(DEFAULT_BRAND);
+  // An unregistered brand quietly falls back to the built-in one
+  const brandName = selectedBrand in brands ? selectedBrand : DEFAULT_BRAND;
+
+  const registerBrand = useCallback((name: string, definition: BrandThemeDefinition) => {
+    if (name === DEFAULT_BRAND) return [`"${name}" is reserved`];
+    const missing = validateBrandTheme(definition);
+    if (missing.length) return missing;
+    setCustomBrands(prev => ({ ...prev, [name]: definition }));
+    return [];
+  }, []);
+
+  const unregisterBrand = useCallback((name: string) => {
+    setCustomBrands(prev => {
+      if (!(name in prev)) return prev;
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const setThemeName = useCallback((next: ThemeName) => {
+    setThemeNameState(next);
+    storeThemeName(next);
+  }, []);
+
+  // Another tab changed the preference: follow it
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== THEME_STORAGE_KEY) return;
+      setThemeNameState(isThemeName(e.newValue) ? e.newValue : 'light');
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const { customVariants } = useButtonVariants();
+
+  // Both modes of the active brand: the context hands out one, the CSS variables carry both
+  const colorThemes = useMemo(() => ({
+    light: buildColorTheme(brands, brandName, 'light', customVariants),
+    dark: buildColorTheme(brands, brandName, 'dark', customVariants),
+  }), [brands, brandName, customVariants]);
+
+  const [tokenOverrides, setTokenOverrides] = useState<TokenOverrides | null>(null);
+  const [density, setDensity] = useState<Density>('comfortable');
+  // Overrides (e.g. an import) land on top of the density's scale; their spacing scales with it
+  const baseTokens = useMemo(() => densityTokens(density, tokenOverrides), [density, tokenOverrides]);
+
   const smartTheme = useMemo(() => {
-    const colorTheme = themes[themeName];
-    const resolvedRawTheme = resolveTokens(rawTheme, breakpoint);
-    return { ...colorTheme, ...resolvedRawTheme };
-  }, [themeName, breakpoint]);
+    return { ...colorThemes[resolvedThemeName], ...resolveTokens(baseTokens, breakpoint) };
+  }, [colorThemes, resolvedThemeName, baseTokens, breakpoint]);
+
+  const token = useCallback(((path: string) => getToken(smartTheme, path)) as TokenAccessor, [smartTheme]);
+
+  // Independent of mode and breakpoint: those only flip which variables apply
+  const tokenCss = useMemo(() => buildTokenCss(colorThemes, baseTokens), [colorThemes, baseTokens]);
+
+  // Keep the pre-paint hints from index.html in step (native form controls and scrollbars read color-scheme).
+  // data-theme is also what the CSS variable blocks are keyed on.
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = resolvedThemeName;
+    root.style.colorScheme = resolvedThemeName;
+    root.style.backgroundColor = cssVar('Color.Base.Surface.1');
+  }, [resolvedThemeName]);
 
-  const value = {
+  // Stable between renders that change nothing, so every useTheme() consumer doesn't re-render with the root
+  const value = useMemo<ThemeContextType>(() => ({
     themeName,
+    resolvedThemeName,
     setThemeName,
+    brandName,
+    setBrandName,
+    brands,
+    registerBrand,
+    unregisterBrand,
+    tokenOverrides,
+    setTokenOverrides,
+    breakpoint,
+    density,
+    setDensity,
     theme: smartTheme,
-  };
+    token,
+  }), [themeName, resolvedThemeName, setThemeName, brandName, brands, registerBrand, unregisterBrand, tokenOverrides, breakpoint, density, smartTheme, token]);
 
   return (
     <ThemeContext.Provider value={value}>
-      <GlobalStyles />
+      <GlobalStyles tokenCss={tokenCss} />
       {children}
     </ThemeContext.Provider>
   );
 };
 
+// A nested provider: everything comes from the parent except what the props pin down.
+// Global styles stay with the root; the scope carries its own values as CSS variables on a
+// wrapper that doesn't take part in layout, so cssVar() inside resolves to the scope too.
+const ThemeScope = ({ parent, mode, brand, density: pinnedDensity, tokens, children }: React.PropsWithChildren<ThemeProviderProps & { parent: ThemeContextType }>) => {
+  const systemColorScheme = useSystemColorScheme();
+  const breakpoint = useBreakpoint();
+  const { customVariants } = useButtonVariants();
+
+  const themeName = mode ?? parent.themeName;
+  const resolvedThemeName: ColorScheme = !mode ? parent.resolvedThemeName : mode === 'system' ? systemColorScheme : mode;
+  const brandName = brand && brand in parent.brands ? brand : parent.brandName;
+  const density = pinnedDensity ?? parent.density;
+
+  // Overrides stack: the parent's first, then this scope's on top
+  const tokenOverrides = useMemo(() => (tokens ? mergeTokens(parent.tokenOverrides, tokens) : parent.tokenOverrides), [parent.tokenOverrides, tokens]);
+  const baseTokens = useMemo(() => densityTokens(density, tokenOverrides), [density, tokenOverrides]);
+
+  const colorTheme = useMemo(
+    () => buildColorTheme(parent.brands, brandName, resolvedThemeName, customVariants),
+    [parent.brands, brandName, resolvedThemeName, customVariants],
+  );
+  const resolvedTokens = useMemo(() => resolveTokens(baseTokens, breakpoint), [baseTokens, breakpoint]);
+
+  // Colors always (the root's [data-theme] blocks only match <html>); the rest only when this
+  // scope changes it, through its own tokens, density or breakpoint
+  const ownTokens = !!tokens || density !== parent.density || breakpoint !== parent.breakpoint;
+  const variables = useMemo(() => ({
+    ...toCssVariables(colorTheme),
+    ...(ownTokens ? toCssVariables(resolvedTokens) : {}),
+  }), [colorTheme, ownTokens, resolvedTokens]);
+
+  const theme = useMemo(() => ({ ...colorTheme, ...resolvedTokens }), [colorTheme, resolvedTokens]);
+  const token = useCallback(((path: string) => getToken(theme, path)) as TokenAccessor, [theme]);
+
+  const value = useMemo<ThemeContextType>(() => ({
+    ...parent,
+    themeName,
+    resolvedThemeName,
+    brandName,
+    tokenOverrides,
+    breakpoint,
+    density,
+    theme,
+    token,
+  }), [parent, themeName, resolvedThemeName, brandName, tokenOverrides, breakpoint, density, theme, token]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <div data-theme={resolvedThemeName} style={{ display: 'contents', colorScheme: resolvedThemeName, ...variables }}>
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+};
+
 export const useTheme = () => {
   const context = useContext(ThemeContext);
   if (context === undefined) {
@@ -4,7 +4,7 @@
  */
 import React, { useState, useEffect } from 'react';
 import { useMotionValue, useTransform, AnimatePresence } from 'framer-motion';
-import { useTheme } from '../../Theme.tsx';
+import { useTheme, defaultThemeColors, isResponsiveObject } from '../../Theme.tsx';
 import ThemeToggleButton from '../Core/ThemeToggleButton.tsx';
 import FloatingWindow from '../Package/FloatingWindow.tsx';
 import Dock from '../Section/Dock.tsx';
@@ -12,16 +12,20 @@ import Stage from '../Section/Stage.tsx';
 import ControlPanel from '../Package/ControlPanel.tsx';
 import CodePanel from '../Package/CodePanel.tsx';
 import ConsolePanel from '../Package/ConsolePanel.tsx';
+import PalettePanel from '../Package/PalettePanel.tsx';
 import UndoRedo from '../Package/UndoRedo.tsx';
 import Confetti from '../Core/Confetti.tsx';
 import { WindowId, WindowState, LogEntry, MetaButtonProps } from '../../types/index.tsx';
+import { useButtonVariants } from '../../hooks/useButtonVariants.tsx';
+import { ShortcutScope } from '../../hooks/useShortcut.tsx';
+import { useTokenValidator, describeTokenIssue } from '../../hooks/useTokenValidator.tsx';
 
 /**
  * 🏎️ Meta Prototype App (SUS System Edition)
  * Acts as the main state orchestrator for the application.
  */
 const MetaPrototype = () => {
-  const { theme } = useTheme();
+  const { theme, registerBrand } = useTheme();
   
   // -- App State --
   const [btnProps, setBtnProps] = useState<MetaButtonProps>({
@@ -32,14 +36,24 @@ const MetaPrototype = () => {
     iconPlacement: 'left',
     icon: 'ph-check',
     disabled: false,
+    loading: false,
     forcedHover: false,
     forcedFocus: false,
     forcedActive: false,
+    hoverLift: 2,
+    pressDepth: 2,
+    rippleDuration: 2500,
+    rippleOpacity: 20,
+    stateLayerCurve: 'liquid',
+    split: false,
+    menuItems: ['Save as…', 'Save a copy'],
   });
   
   // -- View / Inspection State --
   const [showMeasurements, setShowMeasurements] = useState(false);
   const [showTokens, setShowTokens] = useState(false);
+  const [splitPreview, setSplitPreview] = useState(false);
+  const [containerWidth, setContainerWidth] = useState<number | null>(null);
   
   // 3D Layer View State
   const [view3D, setView3D] = useState(false);
@@ -70,11 +84,13 @@ const MetaPrototype = () => {
   const CONTROL_PANEL_HEIGHT = 680; 
   const CODE_PANEL_HEIGHT = 420;
   const CONSOLE_PANEL_HEIGHT = 200;
+  const PALETTE_PANEL_HEIGHT = 600;
 
   const [windows, setWindows] = useState<Record<WindowId, WindowState>>({
     control: { id: 'control', title: 'Control', isOpen: true, zIndex: 1, x: -WINDOW_WIDTH / 2 - 220, y: -CONTROL_PANEL_HEIGHT / 2 },
     code: { id: 'code', title: 'Code I/O', isOpen: false, zIndex: 2, x: -WINDOW_WIDTH / 2 + 220, y: -CODE_PANEL_HEIGHT / 2 },
     console: { id: 'console', title: 'Console', isOpen: false, zIndex: 3, x: -WINDOW_WIDTH / 2, y: 150 },
+    palette: { id: 'palette', title: 'Palette', isOpen: false, zIndex: 4, x: -WINDOW_WIDTH / 2 + 220, y: -PALETTE_PANEL_HEIGHT / 2 },
   });
 
   // -- Code Editor State --
@@ -98,10 +114,62 @@ const MetaPrototype = () => {
     setLogs(prev => [...prev, entry].slice(-50));
   };
   
+  // Sample brand variants, registered at runtime to show off the variant registry
+  const { registerButtonVariant } = useButtonVariants();
+  useEffect(() => {
+      registerButtonVariant('upsell', {
+        label: 'Upsell',
+        light: { surface: '{Color.Signal.Content.1}', content: '#FFFFFF', hover: '#6B21A8' },
+        dark: { surface: '{Color.Signal.Content.1}', content: '{Color.Base.Surface.1}', hover: '#D8B4FE' },
+      });
+      registerButtonVariant('warning', {
+        label: 'Warning',
+        light: { surface: '{Color.Warning.Surface.1}', content: '{Color.Warning.Content.1}', border: '{Color.Warning.Content.1}', hover: '#FEF08A' },
+        dark: { surface: '{Color.Warning.Surface.1}', content: '{Color.Warning.Content.1}', border: '{Color.Warning.Content.1}', hover: '#713F12' },
+      });
+  }, [registerButtonVariant]);
+
+  // Sample brands, registered at runtime to show off the brand registry (Slate neutrals, own accent and focus)
+  useEffect(() => {
+      const { light, dark } = defaultThemeColors;
+      registerBrand('ocean', {
+        label: 'Ocean',
+        light: { Color: { ...light.Color,
+          Accent: { Surface: { '1': '#0369A1', '2': '#E0F2FE', '3': '#075985' }, Content: { '1': '#FFFFFF', '2': '#0C4A6E' } }, // Sky-700, Sky-100, Sky-800 / White, Sky-900
+          Focus: { Surface: { '1': '#ECFEFF' }, Content: { '1': '#0E7490' } },   // Cyan-50, Cyan-700
+        } },
+        dark: { Color: { ...dark.Color,
+          Accent: { Surface: { '1': '#38BDF8', '2': '#0C4A6E', '3': '#7DD3FC' }, Content: { '1': '#082F49', '2': '#E0F2FE' } }, // Sky-400, Sky-900, Sky-300 / Sky-950, Sky-100
+          Focus: { Surface: { '1': '#083344' }, Content: { '1': '#22D3EE' } },   // Cyan-950, Cyan-400
+        } },
+      });
+      registerBrand('ember', {
+        label: 'Ember',
+        light: { Color: { ...light.Color,
+          Accent: { Surface: { '1': '#C2410C', '2': '#FFEDD5', '3': '#9A3412' }, Content: { '1': '#FFFFFF', '2': '#7C2D12' } }, // Orange-700, Orange-100, Orange-800 / White, Orange-900
+          Focus: { Surface: { '1': '#FFFBEB' }, Content: { '1': '#B45309' } },   // Amber-50, Amber-700
+        } },
+        dark: { Color: { ...dark.Color,
+          Accent: { Surface: { '1': '#FB923C', '2': '#7C2D12', '3': '#FDBA74' }, Content: { '1': '#431407', '2': '#FFEDD5' } }, // Orange-400, Orange-900, Orange-300 / Orange-950, Orange-100
+          Focus: { Surface: { '1': '#451A03' }, Content: { '1': '#FBBF24' } },   // Amber-950, Amber-400
+        } },
+      });
+  }, [registerBrand]);
+
   useEffect(() => {
       logEvent('System Ready. SUS Design System initialized.');
   }, []);
 
+  // Unknown or deprecated token() paths show up next to everything else
+  useTokenValidator(issue => logEvent(`Token warning: ${describeTokenIssue(issue)}`));
+
+  // Icon-only buttons are named by their label, so clearing it leaves screen readers with nothing
+  const placements = isResponsiveObject(btnProps.iconPlacement) ? Object.values(btnProps.iconPlacement) : [btnProps.iconPlacement];
+  const isUnnamed = placements.includes('iconOnly') && !btnProps.label.trim();
+  useEffect(() => {
+    if (isUnnamed) logEvent('A11y warning: iconOnly buttons need a label or aria-label so screen readers can name them');
+  }, [isUnnamed]);
+
   const updateBtnProps = (newProps: MetaButtonProps, saveHistory: boolean = true) => {
     if (saveHistory) {
       setHistory(prev => [...prev, btnProps]);
@@ -158,7 +226,7 @@ const MetaPrototype = () => {
   const handlePropChange = (keyOrObj: string | Partial<MetaButtonProps>, value?: any) => {
     if (typeof keyOrObj === 'string') {
         updateBtnProps({ ...btnProps, [keyOrObj]: value });
-        logEvent(`Prop updated: ${keyOrObj} = ${value}`);
+        logEvent(`Prop updated: ${keyOrObj} = ${typeof value === 'object' ? JSON.stringify(value) : value}`);
     } else {
         updateBtnProps({ ...btnProps, ...keyOrObj });
         logEvent(`State updated: ${Object.keys(keyOrObj).join(', ')}`);
@@ -179,20 +247,37 @@ const MetaPrototype = () => {
   const handleToggleMeasurements = () => {
     setShowMeasurements(prev => !prev);
     if (showTokens) setShowTokens(false);
+    if (splitPreview) setSplitPreview(false);
     logEvent(`Measurements toggled: ${!showMeasurements ? 'On' : 'Off'}`);
   };
 
   const handleToggleTokens = () => {
     setShowTokens(prev => !prev);
     if (showMeasurements) setShowMeasurements(false);
+    if (splitPreview) setSplitPreview(false);
     logEvent(`Tokens toggled: ${!showTokens ? 'On' : 'Off'}`);
   };
+
+  // The split preview shows two plain buttons, so the single-button inspectors step aside
+  const handleToggleSplitPreview = () => {
+    setSplitPreview(prev => !prev);
+    if (!splitPreview) {
+      setShowMeasurements(false);
+      setShowTokens(false);
+      setView3D(false);
+    }
+    logEvent(`Split light/dark preview: ${!splitPreview ? 'On' : 'Off'}`);
+  };
   
   const handleStageButtonClick = () => {
     logEvent('Button Clicked!');
     setConfettiTrigger(prev => prev + 1);
   };
 
+  const handleStageMenuSelect = (item: string) => {
+    logEvent(`Menu item triggered: ${item}`);
+  };
+
   return (
     <div style={{
       width: '100vw',
@@ -209,16 +294,22 @@ const MetaPrototype = () => {
       <ThemeToggleButton />
       <Confetti trigger={confettiTrigger} />
 
-      <Stage
-        btnProps={btnProps}
-        onButtonClick={handleStageButtonClick}
-        showMeasurements={showMeasurements}
-        showTokens={showTokens}
-        view3D={view3D}
-        viewRotateX={viewRotateX}
-        viewRotateZ={viewRotateZ}
-        layerSpacing={layerSpacing}
-      />
+      {/* Stage hotkeys live here; clashes land in the console */}
+      <ShortcutScope onConflict={logEvent}>
+        <Stage
+          btnProps={btnProps}
+          onButtonClick={handleStageButtonClick}
+          onMenuSelect={handleStageMenuSelect}
+          showMeasurements={showMeasurements}
+          showTokens={showTokens}
+          splitPreview={splitPreview}
+          containerWidth={containerWidth}
+          view3D={view3D}
+          viewRotateX={viewRotateX}
+          viewRotateZ={viewRotateZ}
+          layerSpacing={layerSpacing}
+        />
+      </ShortcutScope>
 
       {/* --- WINDOWS --- */}
       <AnimatePresence>
@@ -237,8 +328,18 @@ const MetaPrototype = () => {
                 onToggleMeasurements={handleToggleMeasurements}
                 showTokens={showTokens}
                 onToggleTokens={handleToggleTokens}
+                splitPreview={splitPreview}
+                onToggleSplitPreview={handleToggleSplitPreview}
+                containerWidth={containerWidth}
+                onContainerWidthChange={(width) => {
+                  setContainerWidth(width);
+                  logEvent(width ? `Container simulated at ${width}px` : 'Container simulation off');
+                }}
                 view3D={view3D}
-                onToggleView3D={() => setView3D(!view3D)}
+                onToggleView3D={() => {
+                  setView3D(!view3D);
+                  if (splitPreview) setSplitPreview(false);
+                }}
                 layerSpacing={layerSpacing}
                 viewRotateX={viewRotateX}
                 viewRotateZ={viewRotateZ}
@@ -274,6 +375,17 @@ const MetaPrototype = () => {
             <ConsolePanel logs={logs} />
           </FloatingWindow>
         )}
+
+        {windows.palette.isOpen && (
+          <FloatingWindow
+            key="palette"
+            {...windows.palette}
+            onClose={() => toggleWindow('palette')}
+            onFocus={() => bringToFront('palette')}
+          >
+            <PalettePanel onLog={logEvent} />
+          </FloatingWindow>
+        )}
       </AnimatePresence>
 
       <Dock windows={windows} toggleWindow={toggleWindow} />
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import { SusButtonBadge } from '../../types/index.tsx';
+
+// Default ceiling for counters: 120 unread reads "99+"
+const DEFAULT_MAX = 99;
+
+export const formatBadgeCount = (count: number, max = DEFAULT_MAX) => {
+  return count > max ? `${max}+` : String(count);
+};
+
+// What the badge shows, or null when there's nothing to show (a zero count, an empty text)
+export const getBadgeContent = (badge: SusButtonBadge): string | null => {
+  if (badge.mode === 'dot') return '';
+  if (badge.mode === 'count') return badge.count && badge.count > 0 ? formatBadgeCount(badge.count, badge.max) : null;
+  return badge.text?.trim() ? badge.text : null;
+};
+
+// What a screen reader hears: the explicit label, otherwise the full (unclipped) value
+export const getBadgeAnnouncement = (badge: SusButtonBadge): string | undefined => {
+  if (getBadgeContent(badge) === null) return undefined;
+  if (badge.label) return badge.label;
+  if (badge.mode === 'count') return String(badge.count);
+  if (badge.mode === 'text') return badge.text;
+  return undefined; // A bare dot has no words unless you give it some
+};
+
+interface BadgeProps {
+  badge: SusButtonBadge;
+  // Floating badges sit on a corner and get a ring in the page color to cut them out of the button
+  floating?: boolean;
+}
+
+/**
+ * 🔴 Badge
+ * The counter / dot / text pill on a Button. Plain divs only (no <span>) so the
+ * anatomy inspector keeps measuring the Button label, not the badge.
+ */
+const Badge: React.FC<BadgeProps> = ({ badge, floating = false }) => {
+  const { theme, token } = useTheme();
+  const tokens = theme.Component.Badge[badge.tone ?? 'error'] || theme.Component.Badge.error;
+  const content = getBadgeContent(badge) ?? '';
+  const isDot = badge.mode === 'dot';
+
+  // Counting up rolls the new number in from below, counting down from above
+  const previousCount = useRef(badge.count ?? 0);
+  const direction = (badge.count ?? 0) >= previousCount.current ? 1 : -1;
+  useEffect(() => {
+    previousCount.current = badge.count ?? 0;
+  }, [badge.count]);
+
+  return (
+    <motion.div
+      layout
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        boxSizing: 'border-box',
+        minWidth: isDot ? '8px' : '18px',
+        height: isDot ? '8px' : '18px',
+        padding: isDot ? 0 : '0 5px',
+        borderRadius: token('radius.Radius.Full'),
+        backgroundColor: tokens.Surface.Default,
+        color: tokens.Content.Default,
+        boxShadow: floating ? `0 0 0 2px ${theme.Color.Base.Surface[1]}` : undefined,
+        fontSize: '11px',
+        lineHeight: '18px',
+        fontWeight: 600,
+        fontVariantNumeric: 'tabular-nums',
+        overflow: 'hidden',
+      }}
+    >
+      {!isDot && (
+        <AnimatePresence initial={false} mode="popLayout" custom={direction}>
+          <motion.div
+            key={content}
+            custom={direction}
+            variants={{
+              enter: (dir: number) => ({ y: dir * 10, opacity: 0 }),
+              center: { y: 0, opacity: 1 },
+              exit: (dir: number) => ({ y: dir * -10, opacity: 0 }),
+            }}
+            initial="enter"
+            animate="center"
+            exit="exit"
+            transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+          >
+            {content}
+          </motion.div>
+        </AnimatePresence>
+      )}
+    </motion.div>
+  );
+};
+
+export default Badge;
@@ -2,14 +2,19 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState } from 'react';
-import { useTheme } from '../../Theme.tsx';
-import { motion } from 'framer-motion';
-import { SusButtonType, SusButtonSize, SusButtonIconPlacement, SusButtonRadius } from '../../types/index.tsx';
+import React, { useState, useEffect, useLayoutEffect, useRef, useId, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { useTheme, Theme, resolveResponsive, scaleByDensity } from '../../Theme.tsx';
+import { useBreakpoint } from '../../hooks/useBreakpoint.tsx';
+import { useShortcut, toAriaKeyShortcuts, formatShortcutHint } from '../../hooks/useShortcut.tsx';
+import { motion, AnimatePresence, animate, useMotionValue, useTransform, type MotionValue, type MotionProps } from 'framer-motion';
+import { SusButtonType, SusButtonSize, SusButtonIconPlacement, SusButtonRadius, SusButtonGroupOrientation, SusButtonGroupPosition, SusStateLayerCurve, SusButtonBadge, SusButtonBadgePlacement, SusButtonConfirmMode, SusButtonLabelOverflow, SusButtonLayer, Responsive } from '../../types/index.tsx';
 import StateLayer from './StateLayer.tsx';
 import RippleLayer, { Ripple } from './RippleLayer.tsx';
+import Badge, { getBadgeContent, getBadgeAnnouncement } from './Badge.tsx';
 
 // --- SUS SYSTEM CONSTANTS ---
+// Comfortable density; compact / touch scale the box (height, padding, gap) and keep the type
 const SIZES: Record<string, { fontSize: string; lineHeight: string; padding: string; height: string; gap: string }> = {
     xl: { fontSize: '20px', lineHeight: '24px', padding: '16px 32px', height: '56px', gap: '12px' },
     l: { fontSize: '16px', lineHeight: '20px', padding: '12px 24px', height: '48px', gap: '8px' },
@@ -18,54 +23,378 @@ const SIZES: Record<string, { fontSize: string; lineHeight: string; padding: str
     xs: { fontSize: '14px', lineHeight: '18px', padding: '6px 12px', height: '28px', gap: '4px' },
 };
 
-interface ButtonProps {
+// How long the success / fail flash stays on screen after an async click settles.
+const FEEDBACK_DURATION = 1200;
+
+type AsyncState = 'idle' | 'pending' | 'success' | 'fail';
+
+// Confirmation defaults: how long to hold, and how long "Are you sure?" waits for the second click.
+const CONFIRM_HOLD_DURATION = 1500;
+const CONFIRM_TIMEOUT = 3000;
+
+// Screen-reader-only text (confirmation hints and announcements)
+const VISUALLY_HIDDEN: React.CSSProperties = {
+    position: 'absolute', width: '1px', height: '1px', padding: 0, margin: '-1px',
+    overflow: 'hidden', clip: 'rect(0, 0, 0, 0)', whiteSpace: 'nowrap', border: 0,
+};
+
+// Floating badges straddle the chosen corner
+type BadgeCorner = Exclude<SusButtonBadgePlacement, 'auto' | 'inline'>;
+const BADGE_CORNERS: Record<BadgeCorner, { top?: number; right?: number; bottom?: number; left?: number; x: string; y: string }> = {
+    'top-right': { top: 0, right: 0, x: '40%', y: '-40%' },
+    'top-left': { top: 0, left: 0, x: '-40%', y: '-40%' },
+    'bottom-right': { bottom: 0, right: 0, x: '40%', y: '40%' },
+    'bottom-left': { bottom: 0, left: 0, x: '-40%', y: '40%' },
+};
+
+// --- THEME MAPPING ---
+// Reads the Button component tokens (Theme.tsx → Component.Button), which point at semantic colors.
+// Exported so companions (SplitButton menus, the CodePanel export, etc.) paint with the exact same variant colors.
+export type ButtonVariantStyle = { bg: string; text: string; border: string; hover: string; pressed: string };
+
+export const getThemeStyles = (variant: string, theme: Theme): ButtonVariantStyle => {
+  const tokens = theme.Component.Button[variant] || theme.Component.Button.primary;
+  return {
+    bg: tokens.Surface.Default,
+    text: tokens.Content.Default,
+    border: tokens.Border.Default,
+    hover: tokens.Surface.Hover,
+    pressed: tokens.Surface.Pressed,
+  };
+};
+
+// Inspector colors for each layer in the exploded view / Layer Stack HUD (the Badge layer wears its own tone)
+export const BUTTON_LAYER_TONES: Record<Exclude<SusButtonLayer, 'Badge'>, 'Error' | 'Warning' | 'Signal' | 'Focus' | 'Success' | 'Accent'> = {
+  Surface: 'Error',
+  State: 'Warning',
+  Focus: 'Signal',
+  Ripple: 'Focus',
+  Content: 'Success',
+  Pending: 'Accent',
+};
+
+// initial / animate / exit / transition pass straight through to the motion layer
+interface ButtonLayerProps extends Pick<MotionProps, 'initial' | 'animate' | 'exit' | 'transition'> {
+  name: SusButtonLayer;
+  index: number; // Stack position; lifted index × layerSpacing when exploded
+  spacing: MotionValue<number>;
+  exploded: boolean;
+  highlightLayer?: SusButtonLayer | null;
+  inspectColor: string;
+  style: React.CSSProperties;
+  children?: React.ReactNode;
+  'aria-hidden'?: boolean;
+}
+
+/**
+ * One slice of the Button. Flat by default; in the exploded view it floats up on translateZ
+ * and draws a dashed outline with its name (solid and tinted while highlighted from the HUD).
+ */
+const ButtonLayer: React.FC<ButtonLayerProps> = ({ name, index, spacing, exploded, highlightLayer, inspectColor, style, children, ...motionProps }: ButtonLayerProps) => {
+  const { theme } = useTheme();
+  const z = useTransform(spacing, v => v * index);
+  const isHighlighted = exploded && highlightLayer === name;
+
+  return (
+    <motion.div {...motionProps} style={{ ...style, zIndex: index, z: exploded ? z : 0 }}>
+      {children}
+      {exploded && (
+        <div style={{
+          position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+          borderRadius: 'inherit', pointerEvents: 'none', boxSizing: 'border-box',
+          border: isHighlighted ? `2px solid ${inspectColor}` : `1px dashed ${inspectColor}88`,
+          backgroundColor: isHighlighted ? `${inspectColor}22` : undefined,
+        }}>
+          {/* A div, not a span: the anatomy inspector measures the first span as the label */}
+          <div style={{
+            position: 'absolute', bottom: '100%', left: 0, marginBottom: '2px',
+            fontFamily: theme.Type.Expressive.Data.fontFamily, fontSize: '8px', fontWeight: 'bold', lineHeight: 1,
+            color: inspectColor, whiteSpace: 'nowrap', opacity: isHighlighted || !highlightLayer ? 1 : 0.4,
+          }}>
+            {index} {name}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+// Motion versions of whatever element / component `as` points at, built once and reused.
+const motionComponentCache = new Map<React.ElementType, React.ElementType>();
+const getMotionComponent = (element: React.ElementType): React.ElementType => {
+  let cached = motionComponentCache.get(element);
+  if (!cached) {
+    cached = motion.create(element) as React.ElementType;
+    motionComponentCache.set(element, cached);
+  }
+  return cached;
+};
+
+interface ButtonOwnProps {
   label: string;
   type?: SusButtonType;
-  size?: SusButtonSize;
-  radius?: SusButtonRadius;
-  iconPlacement?: SusButtonIconPlacement;
+  // These three also take per-breakpoint objects, e.g. { mobile: 's', desktop: 'l' }
+  size?: Responsive<SusButtonSize>;
+  radius?: Responsive<SusButtonRadius>;
+  iconPlacement?: Responsive<SusButtonIconPlacement>;
   icon?: string;
+  // Long labels: cap the width, then cut with "…" (full label as a tooltip) or wrap onto more lines
+  maxWidth?: number | string;
+  labelOverflow?: SusButtonLabelOverflow;
+  // Counter, status dot or short text ("Inbox 12", a red dot on a bell)
+  badge?: SusButtonBadge;
+  // Hotkey like "mod+s", live in the nearest ShortcutScope. Fires a keyboard click (centered ripple).
+  shortcut?: string;
   disabled?: boolean;
-  onClick?: () => void;
-  // 3D/Interactive Props
-  layerSpacing?: any; 
+  // Keep disabled buttons in the tab order (announced via aria-disabled instead of the native attribute)
+  focusableWhenDisabled?: boolean;
+  loading?: boolean;
+  // Native `type` attribute (our `type` prop is the visual variant)
+  htmlType?: 'button' | 'submit' | 'reset';
+  // Accessibility pass-through
+  'aria-label'?: string;
+  'aria-pressed'?: boolean | 'mixed';
+  'aria-expanded'?: boolean;
+  'aria-controls'?: string;
+  'aria-haspopup'?: boolean | 'menu' | 'listbox' | 'dialog';
+  // Set by ButtonGroup: joins borders with neighbours and keeps only the outer corners round
+  attached?: { position: SusButtonGroupPosition; orientation: SusButtonGroupOrientation };
+  // If onClick returns a Promise, the button manages its own loading + feedback states.
+  onClick?: (e: React.MouseEvent<HTMLElement>) => void | Promise<unknown>;
+  feedbackDuration?: number;
+  // Guard destructive actions: hold until the surface fills, or click twice
+  confirm?: SusButtonConfirmMode;
+  confirmDuration?: number; // ms to hold ('hold')
+  confirmTimeout?: number;  // ms the second click is waited for ('double')
+  confirmLabel?: string;    // Label swapped in while waiting ('double')
+  // 3D/Interactive Props: `view3D` explodes the layers apart by `layerSpacing` px each
+  layerSpacing?: MotionValue<number>;
   view3D?: boolean;
+  highlightLayer?: SusButtonLayer | null; // Inspector: emphasise one layer in the exploded view
   forcedHover?: boolean;
   forcedFocus?: boolean;
   forcedActive?: boolean;
-  // Legacy support
-  customRadius?: any;
+  // Interaction Feel
+  hoverLift?: number;       // px the button rises on hover
+  pressDepth?: number;      // % the button shrinks when pressed
+  rippleDuration?: number;  // ms
+  rippleOpacity?: number;   // % (0-100)
+  stateLayerCurve?: SusStateLayerCurve;
+  // Off-system overrides, applied on top of the variant tokens. Empty strings fall back to the tokens.
+  customFill?: string;
+  customColor?: string;
+  customBorder?: string;
+  customHover?: string;   // Also used for the pressed fill
+  customRadius?: string;  // Any CSS length; bare numbers are px
 }
 
-const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({
+/**
+ * Polymorphic props: `as` picks the rendered element (defaults to `button`, or `a` when `href` is set),
+ * and every other prop that element accepts is passed straight through. Anything with an `href`
+ * (or a router component with `to`) keeps link semantics; other non-button elements act as buttons.
+ */
+export type ButtonProps<C extends React.ElementType = 'button'> = ButtonOwnProps & {
+  as?: C;
+  href?: string;
+} & Omit<React.ComponentPropsWithoutRef<C>, keyof ButtonOwnProps | 'as' | 'href'>;
+
+// What Button itself sets on the rendered element: button, link or plain-element semantics
+type ElementSemantics = React.HTMLAttributes<HTMLElement>
+  & Pick<React.ButtonHTMLAttributes<HTMLButtonElement>, 'type' | 'disabled'>
+  & Pick<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'>;
+
+type ButtonComponent = <C extends React.ElementType = 'button'>(
+  props: ButtonProps<C> & { ref?: React.ComponentPropsWithRef<C>['ref'] }
+) => React.ReactElement | null;
+
+const ButtonBase = ({
+  as,
+  href,
   label,
   type = 'primary',
-  size = 'm',
-  radius = '8px',
-  iconPlacement = 'none',
+  size: sizeProp = 'm',
+  radius: radiusProp = '8px',
+  iconPlacement: iconPlacementProp = 'none',
   icon,
+  maxWidth,
+  labelOverflow = 'visible',
+  badge,
+  shortcut,
   disabled = false,
+  focusableWhenDisabled = false,
+  loading = false,
+  htmlType = 'button',
+  'aria-label': ariaLabel,
+  'aria-pressed': ariaPressed,
+  'aria-expanded': ariaExpanded,
+  'aria-controls': ariaControls,
+  'aria-haspopup': ariaHasPopup,
   onClick,
+  feedbackDuration = FEEDBACK_DURATION,
+  confirm = 'none',
+  confirmDuration = CONFIRM_HOLD_DURATION,
+  confirmTimeout = CONFIRM_TIMEOUT,
+  confirmLabel = 'Are you sure?',
   layerSpacing,
   view3D = false,
+  highlightLayer,
   forcedHover = false,
   forcedFocus = false,
   forcedActive = false,
+  hoverLift = 2,
+  pressDepth = 2,
+  rippleDuration = 2500,
+  rippleOpacity = 20,
+  stateLayerCurve = 'liquid',
+  customFill,
+  customColor,
+  customBorder,
+  customHover,
   customRadius,
-}, ref) => {
-  const { theme, themeName } = useTheme();
+  attached,
+  onKeyDown,
+  onKeyUp,
+  onFocus,
+  onBlur,
+  ...rest
+}: ButtonProps<React.ElementType>, ref: React.ForwardedRef<HTMLElement>) => {
+  const { theme, token, density } = useTheme();
+
+  // Responsive props settle to one value for the current breakpoint
+  const breakpoint = useBreakpoint();
+  const size = resolveResponsive(sizeProp, breakpoint);
+  const radius = resolveResponsive(radiusProp, breakpoint);
+  const iconPlacement = resolveResponsive(iconPlacementProp, breakpoint);
+
+  // Element Resolution
+  const element: React.ElementType = as ?? (href !== undefined ? 'a' : 'button');
+  const MotionElement = getMotionComponent(element);
+  const isNativeButton = element === 'button';
+  // Router links (`as={Link} to="/x"`) are links too, not plain elements to dress up as buttons
+  const isLink = element === 'a' || href !== undefined || (typeof element !== 'string' && (rest as { to?: unknown }).to !== undefined);
+
+  // Our own handle on the element (for shortcuts), alongside whatever ref the caller passed
+  const elementRef = useRef<HTMLElement | null>(null);
+  const setElementRef = useCallback((node: HTMLElement | null) => {
+    elementRef.current = node;
+    if (typeof ref === 'function') ref(node);
+    else if (ref) ref.current = node;
+  }, [ref]);
   
   // Interaction State
   const [isHovered, setIsHovered] = useState(false);
   const effectiveHover = forcedHover || isHovered;
+  const [isFocusVisible, setIsFocusVisible] = useState(false);
+  const effectiveFocus = forcedFocus || isFocusVisible;
   
   const [coords, setCoords] = useState({ x: 0, y: 0 });
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [ripples, setRipples] = useState<Ripple[]>([]);
 
+  // Async State (auto mode, driven by a Promise returned from onClick)
+  const [asyncState, setAsyncState] = useState<AsyncState>('idle');
+  const feedbackTimer = useRef<number | undefined>(undefined);
+  const isMounted = useRef(true);
+
+  // Truncation: the full label becomes a tooltip, but only once the "…" actually shows
+  const labelRef = useRef<HTMLSpanElement>(null);
+  const [isTruncated, setIsTruncated] = useState(false);
+
+  // Confirmation State
+  const holdProgress = useMotionValue(0);
+  const holdAnimation = useRef<ReturnType<typeof animate> | null>(null);
+  const holdTarget = useRef<HTMLElement | null>(null); // Set while a hold is running
+  const isConfirmed = useRef(false);
+  const [isArmed, setIsArmed] = useState(false);
+  const armTimer = useRef<number | undefined>(undefined);
+  const [announcement, setAnnouncement] = useState('');
+  const confirmHintId = useId();
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      window.clearTimeout(feedbackTimer.current);
+      window.clearTimeout(armTimer.current);
+      holdAnimation.current?.stop();
+    };
+  }, []);
+
+  const isPending = loading || asyncState === 'pending';
+  const feedback = asyncState === 'success' || asyncState === 'fail' ? asyncState : null;
+  const isBusy = isPending || feedback !== null;
+
+  const settle = (result: 'success' | 'fail') => {
+    if (!isMounted.current) return;
+    setAsyncState(result);
+    window.clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = window.setTimeout(() => {
+      if (isMounted.current) setAsyncState('idle');
+    }, feedbackDuration);
+  };
+
+  useLayoutEffect(() => {
+    const labelEl = labelRef.current;
+    if (labelOverflow !== 'truncate' || !labelEl) {
+      setIsTruncated(false);
+      return;
+    }
+    const check = () => setIsTruncated(labelEl.scrollWidth > labelEl.clientWidth);
+    check();
+    const observer = new ResizeObserver(check);
+    observer.observe(labelEl);
+    return () => observer.disconnect();
+  }, [labelOverflow, label, maxWidth, isArmed, iconPlacement]);
+
+  // Hold-to-confirm: the surface fills over `confirmDuration`, then the button clicks itself
+  const startHold = (target: HTMLElement) => {
+    if (confirm !== 'hold' || disabled || isBusy || holdTarget.current) return;
+    holdTarget.current = target;
+    setAnnouncement('Keep holding to confirm');
+    holdAnimation.current?.stop();
+    holdAnimation.current = animate(holdProgress, 1, {
+      duration: (confirmDuration / 1000) * (1 - holdProgress.get()), // Resume from a half-drained fill
+      ease: 'linear',
+      onComplete: () => {
+        holdTarget.current = null;
+        isConfirmed.current = true;
+        target.click(); // Goes through handleClick, so ripples and async feedback still apply
+        isConfirmed.current = false;
+        setAnnouncement('Confirmed');
+        holdAnimation.current = animate(holdProgress, 0, { duration: 0.3 });
+      },
+    });
+  };
+  const cancelHold = () => {
+    if (!holdTarget.current) return;
+    holdTarget.current = null;
+    holdAnimation.current?.stop();
+    holdAnimation.current = animate(holdProgress, 0, { duration: 0.2 });
+    setAnnouncement('Cancelled');
+  };
+
+  // Click-twice: the first click swaps in `confirmLabel` and waits `confirmTimeout` for the second
+  const arm = () => {
+    setIsArmed(true);
+    setAnnouncement(`${confirmLabel} Press again to confirm.`);
+    window.clearTimeout(armTimer.current);
+    armTimer.current = window.setTimeout(() => {
+      if (isMounted.current) disarm(true);
+    }, confirmTimeout);
+  };
+  const disarm = (announce: boolean) => {
+    window.clearTimeout(armTimer.current);
+    setIsArmed(false);
+    if (announce) setAnnouncement('Cancelled');
+  };
+
+  // A programmatic click has e.detail === 0, so handleClick treats it as a keyboard press.
+  // Hold-to-confirm buttons still need the hold, so the shortcut alone won't fire them.
+  useShortcut(shortcut, () => elementRef.current?.click(), { label: ariaLabel ?? label, enabled: !disabled });
+
   // Helper for coordinates
   const getCoords = (e: React.PointerEvent | React.MouseEvent) => {
-    const buttonEl = e.currentTarget as HTMLButtonElement;
+    const buttonEl = e.currentTarget as HTMLElement;
     const rect = buttonEl.getBoundingClientRect();
     return {
       x: e.clientX - rect.left,
@@ -87,98 +416,146 @@ const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({
     const { x, y } = getCoords(e);
     setCoords({ x, y });
   };
-  const handlePointerLeave = () => setIsHovered(false);
+  const handlePointerLeave = () => {
+    setIsHovered(false);
+    cancelHold();
+  };
   const handlePointerDown = (e: React.PointerEvent) => {
     if (disabled) return;
     const { x, y, width, height } = getCoords(e);
     setCoords({ x, y });
     setDimensions({ width, height });
+    if (e.button === 0) startHold(e.currentTarget as HTMLElement);
   };
-  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
-    if (disabled) return;
+  const handlePointerUp = () => cancelHold();
+  const handleClick = (e: React.MouseEvent<HTMLElement>) => {
+    if (disabled || isBusy || (confirm === 'hold' && !isConfirmed.current)) {
+      // Links would still navigate on their own, so stop them here
+      if (!isNativeButton) e.preventDefault();
+      return; // Ignore repeat clicks while working, and any click that isn't a finished hold
+    }
     let { x, y, width, height } = getCoords(e);
     if (e.detail === 0) { x = width / 2; y = height / 2; } // Keyboard
     setRipples(prev => [...prev, { id: Date.now() + Math.random(), x, y }]);
-    if (onClick) onClick();
-  };
-  const handleRippleComplete = (id: number) => setRipples(prev => prev.filter(r => r.id !== id));
 
-  // --- THEME MAPPING ---
-  // Mapping standard SUS themes to our Theme.tsx tokens
-  const getThemeStyles = () => {
-    const isDark = themeName === 'dark';
-    
-    // Explicit color mapping based on SUS Design System Spec provided
-    const colors: Record<string, { bg: string; text: string; border: string; hover: string }> = {
-      primary: {
-        bg: isDark ? '#FFFFFF' : '#0F172A',
-        text: isDark ? '#0F172A' : '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#E2E8F0' : '#334155',
-      },
-      secondary: {
-        bg: isDark ? '#334155' : '#F1F5F9',
-        text: isDark ? '#FFFFFF' : '#0F172A',
-        border: 'transparent',
-        hover: isDark ? '#475569' : '#E2E8F0',
-      },
-      tertiary: {
-        bg: 'transparent',
-        text: isDark ? '#FFFFFF' : '#0F172A',
-        border: isDark ? '#475569' : '#CBD5E1',
-        hover: isDark ? '#1E293B' : '#F8FAFC',
-      },
-      ghost: {
-        bg: 'transparent',
-        text: isDark ? '#FFFFFF' : '#0F172A',
-        border: 'transparent',
-        hover: isDark ? '#334155' : '#E2E8F0',
-      },
-      success: {
-        bg: isDark ? '#166534' : '#10B981',
-        text: '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#14532D' : '#059669',
-      },
-      fail: {
-        bg: isDark ? '#991B1B' : '#EF4444',
-        text: '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#7F1D1D' : '#DC2626',
+    if (confirm === 'double') {
+      if (!isArmed) {
+        if (!isNativeButton) e.preventDefault();
+        arm();
+        return;
       }
-    };
+      disarm(false);
+    }
+    if (!onClick) return;
 
-    return colors[type] || colors.primary;
+    const result = onClick(e);
+    if (result && typeof (result as Promise<unknown>).then === 'function') {
+      setAsyncState('pending');
+      (result as Promise<unknown>).then(() => settle('success'), () => settle('fail'));
+    }
+  };
+  // Only keyboard focus (:focus-visible) lights up the ring, mouse clicks don't
+  const handleFocus = (e: React.FocusEvent<HTMLElement>) => {
+    let visible = true;
+    try { visible = e.currentTarget.matches(':focus-visible'); } catch { /* Older browsers: always show */ }
+    setIsFocusVisible(visible);
+    onFocus?.(e);
+  };
+  const handleBlur = (e: React.FocusEvent<HTMLElement>) => {
+    setIsFocusVisible(false);
+    cancelHold();
+    if (isArmed) disarm(true);
+    onBlur?.(e);
   };
 
-  const variantStyle = getThemeStyles();
-  const sizeStyle = SIZES[size] || SIZES.m;
+  // Plain elements (div, span...) don't click on Enter / Space by themselves, so we teach them
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
+    const isActivationKey = e.key === 'Enter' || e.key === ' ';
+    // Keyboard hold: keep Enter / Space down until the fill completes
+    if (confirm === 'hold' && isActivationKey) {
+      e.preventDefault();
+      if (!e.repeat) startHold(e.currentTarget as HTMLElement);
+      return;
+    }
+    if (confirm === 'double' && isArmed && e.key === 'Escape') {
+      e.preventDefault();
+      disarm(true);
+      return;
+    }
+    if (isNativeButton || isLink) return;
+    if (isActivationKey) {
+      e.preventDefault();
+      (e.currentTarget as HTMLElement).click();
+    }
+  };
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLElement>) => {
+    onKeyUp?.(e);
+    if (e.key === 'Enter' || e.key === ' ') cancelHold();
+  };
+  const handleRippleComplete = (id: number) => setRipples(prev => prev.filter(r => r.id !== id));
+
+  // While flashing feedback, borrow the success / fail color mappings (custom colors step aside for it)
+  const tokenStyle = getThemeStyles(feedback ?? type, theme);
+  const variantStyle: ButtonVariantStyle = feedback ? tokenStyle : {
+    bg: customFill || tokenStyle.bg,
+    text: customColor || tokenStyle.text,
+    border: customBorder || tokenStyle.border,
+    hover: customHover || tokenStyle.hover,
+    pressed: customHover || tokenStyle.pressed,
+  };
+  const baseSize = SIZES[size] || SIZES.m;
+  const sizeStyle = {
+    ...baseSize,
+    padding: scaleByDensity(baseSize.padding, density),
+    height: scaleByDensity(baseSize.height, density),
+    gap: scaleByDensity(baseSize.gap, density),
+  };
 
   // Radius Logic
   const radiusMap: Record<string, string> = {
     'Sharp': '0px',
     '4px': '4px',
-    '8px': theme.radius['Radius.M'], // 8px from token
-    '16px': theme.radius['Radius.XL'], // 16px from token
-    'Pill': theme.radius['Radius.Full'],
+    '8px': token('radius.Radius.M'), // 8px from token
+    '16px': token('radius.Radius.XL'), // 16px from token
+    'Pill': token('radius.Radius.Full'),
   };
-  const borderRadius = radiusMap[radius] || '8px';
+  const baseRadius = customRadius?.trim()
+    ? (/^\d+(\.\d+)?$/.test(customRadius.trim()) ? `${customRadius.trim()}px` : customRadius.trim())
+    : radiusMap[radius] || '8px';
 
-  // Helper to calculate outer focus ring radius (Radius + Padding)
-  const getFocusRadius = (r: string) => {
-    if (r.includes('9999')) return '9999px';
-    const val = parseInt(r);
-    return isNaN(val) ? r : `${val + 4}px`;
+  // Grouped buttons only keep the corners on the outside of the group (order: TL TR BR BL)
+  const getAttachedRadius = (r: string) => {
+    if (!attached) return r;
+    const isRow = attached.orientation === 'horizontal';
+    const corners = attached.position === 'first' ? (isRow ? [r, '0', '0', r] : [r, r, '0', '0'])
+      : attached.position === 'last' ? (isRow ? ['0', r, r, '0'] : ['0', '0', r, r])
+      : ['0', '0', '0', '0'];
+    return corners.join(' ');
   };
+  const borderRadius = getAttachedRadius(baseRadius);
+
+  // Helper to calculate outer focus ring radius (Radius + Padding), corner by corner
+  const getFocusRadius = (r: string) => r.split(' ').map(corner => {
+    if (corner.includes('9999')) return '9999px';
+    const val = parseInt(corner);
+    return isNaN(val) ? corner : `${val + 4}px`;
+  }).join(' ');
   const focusRadius = getFocusRadius(borderRadius);
 
+  // Neighbours overlap by one pixel so their borders collapse into a single line
+  const attachedStyle: React.CSSProperties = attached && attached.position !== 'first'
+    ? (attached.orientation === 'horizontal' ? { marginLeft: '-1px' } : { marginTop: '-1px' })
+    : {};
+
   // Base Container Style
   const styles: React.CSSProperties = {
     position: 'relative',
     display: 'inline-flex',
     alignItems: 'center',
     justifyContent: 'center',
-    cursor: disabled ? 'not-allowed' : 'pointer',
+    cursor: disabled ? 'not-allowed' : (isBusy ? 'progress' : 'pointer'),
     opacity: disabled ? 0.4 : 1,
     fontFamily: "'Inter', sans-serif",
     fontWeight: 500,
@@ -188,20 +565,66 @@ const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({
     backgroundColor: variantStyle.bg, // We use this for the base, updated by Motion later
     color: variantStyle.text,
     padding: sizeStyle.padding,
-    height: sizeStyle.height,
+    // Wrapping labels grow the button, so the size's height becomes a floor (padding stays as is)
+    height: labelOverflow === 'wrap' ? undefined : sizeStyle.height,
+    minHeight: labelOverflow === 'wrap' ? sizeStyle.height : undefined,
+    maxWidth: typeof maxWidth === 'number' ? `${maxWidth}px` : maxWidth,
     gap: sizeStyle.gap,
     fontSize: sizeStyle.fontSize,
     lineHeight: sizeStyle.lineHeight,
     boxSizing: 'border-box',
+    textDecoration: 'none',
     userSelect: 'none',
-    whiteSpace: 'nowrap',
+    whiteSpace: labelOverflow === 'wrap' ? 'normal' : 'nowrap',
+    textAlign: 'center',
     transformStyle: 'preserve-3d',
+    ...attachedStyle,
+    // Lift the focused segment so its ring isn't hidden under the next one
+    zIndex: attached && effectiveFocus ? 1 : undefined,
   };
 
   // Determine Icon
-  const iconEl = icon ? <i className={`ph-bold ${icon}`} style={{ fontSize: '1.2em' }} /> : null;
+  const iconEl = icon ? <i className={`ph-bold ${icon}`} style={{ fontSize: '1.2em', flexShrink: 0 }} /> : null;
+
+  // Truncating / wrapping labels may shrink below their text width; everything else keeps its size
+  const canShrink = labelOverflow !== 'visible';
+  const labelStyle: React.CSSProperties | undefined = labelOverflow === 'truncate'
+    ? { minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }
+    : labelOverflow === 'wrap' ? { minWidth: 0, overflowWrap: 'anywhere' } : undefined;
+
+  // Shortcut hint (screen readers get aria-keyshortcuts instead). No room for it on icon-only buttons.
+  const shortcutHint = shortcut?.trim() && iconPlacement !== 'iconOnly' ? formatShortcutHint(shortcut) : null;
+  const kbdStyle: React.CSSProperties = {
+    fontFamily: theme.Type.Expressive.Data.fontFamily,
+    fontSize: '0.75em',
+    lineHeight: 1,
+    padding: '2px 5px',
+    borderRadius: token('radius.Radius.S'),
+    border: '1px solid currentColor',
+    opacity: 0.6,
+    whiteSpace: 'nowrap',
+    flexShrink: 0,
+  };
+
+  // Spinner is a plain div (not <i> / <span>) so the anatomy inspector keeps measuring the real content
+  const spinnerEl = (
+    <motion.div
+      style={{
+        width: '1.1em', height: '1.1em', borderRadius: '50%',
+        border: '2px solid currentColor', borderTopColor: 'transparent',
+      }}
+      animate={{ rotate: 360 }}
+      transition={{ repeat: Infinity, duration: 0.8, ease: 'linear' }}
+    />
+  );
   
-  // Layer Logic
+  // Layer Logic (Stage hands us a shared layerSpacing; standalone buttons get a still one)
+  const ownSpacing = useMotionValue(0);
+  const spacing = layerSpacing ?? ownSpacing;
+  const layerProps = (name: Exclude<SusButtonLayer, 'Badge'>) => ({
+    name, spacing, exploded: view3D, highlightLayer,
+    inspectColor: theme.Color[BUTTON_LAYER_TONES[name]].Content[1],
+  });
   const layerWrapperStyle: React.CSSProperties = {
       position: 'absolute',
       top: 0, left: 0, width: '100%', height: '100%',
@@ -209,44 +632,125 @@ const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({
   };
   
   // Animation States
+  const pressScale = 1 - pressDepth / 100;
   const animateState = {
-    y: disabled ? 0 : (forcedActive ? 1 : (effectiveHover ? -2 : 0)),
-    scale: disabled ? 1 : (forcedActive ? 0.98 : 1),
-    backgroundColor: effectiveHover ? variantStyle.hover : variantStyle.bg,
+    y: disabled || isBusy ? 0 : (forcedActive ? 1 : (effectiveHover ? -hoverLift : 0)),
+    scale: disabled || isBusy ? 1 : (forcedActive ? pressScale : 1),
+    backgroundColor: isBusy ? variantStyle.bg
+      : forcedActive ? variantStyle.pressed
+      : effectiveHover ? variantStyle.hover
+      : variantStyle.bg,
+  };
+
+  // Badge: next to the label by default, pinned to a corner for dots and iconOnly buttons
+  const badgeContent = badge ? getBadgeContent(badge) : null;
+  const badgePlacement: Exclude<SusButtonBadgePlacement, 'auto'> = !badge?.placement || badge.placement === 'auto'
+    ? (badge?.mode === 'dot' || iconPlacement === 'iconOnly' ? 'top-right' : 'inline')
+    : badge.placement;
+  const isBadgeFloating = badgePlacement !== 'inline';
+  const badgeAnnouncement = badge ? getBadgeAnnouncement(badge) : undefined;
+
+  // Icon-only buttons have no visible text, so the label becomes their accessible name.
+  // The badge itself is aria-hidden; its words are appended to the name instead.
+  const baseName = ariaLabel ?? (iconPlacement === 'iconOnly' ? label : undefined);
+  const accessibleName = badgeAnnouncement ? `${baseName ?? label}, ${badgeAnnouncement}` : baseName;
+
+  // Semantics per element: links lose their href + tab stop when disabled, plain elements act as buttons
+  const elementProps: ElementSemantics = {
+    'aria-label': accessibleName,
+    'aria-pressed': ariaPressed,
+    'aria-expanded': ariaExpanded,
+    'aria-controls': ariaControls,
+    'aria-haspopup': ariaHasPopup,
   };
+  if (confirm !== 'none') elementProps['aria-describedby'] = confirmHintId;
+  if (isTruncated && rest.title === undefined) elementProps.title = isArmed ? confirmLabel : label;
+  if (shortcut?.trim()) elementProps['aria-keyshortcuts'] = toAriaKeyShortcuts(shortcut);
+  if (isNativeButton) {
+    elementProps.type = htmlType;
+    if (disabled && focusableWhenDisabled) elementProps['aria-disabled'] = true;
+    else if (disabled) elementProps.disabled = true;
+  } else if (isLink) {
+    if (href !== undefined && !disabled) elementProps.href = href;
+    if (disabled) {
+      elementProps['aria-disabled'] = true;
+      // An <a> without an href is no longer a link to assistive tech; say it still is one
+      elementProps.role = 'link';
+      // Links without an href aren't focusable, so give one back when asked to stay focusable
+      elementProps.tabIndex = focusableWhenDisabled ? 0 : -1;
+    }
+  } else {
+    elementProps.role = 'button';
+    elementProps.tabIndex = disabled && !focusableWhenDisabled ? -1 : 0;
+    if (disabled) elementProps['aria-disabled'] = true;
+  }
 
   return (
-    <motion.button
-      ref={ref}
+    <MotionElement
+      {...rest}
+      {...elementProps}
+      ref={setElementRef}
       style={styles}
       onClick={handleClick}
       onPointerEnter={handlePointerEnter}
       onPointerMove={handlePointerMove}
       onPointerLeave={handlePointerLeave}
       onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      aria-busy={isPending || undefined}
       animate={animateState}
-      whileTap={!disabled && !forcedActive ? { scale: 0.98, y: 1 } : undefined}
+      whileTap={!disabled && !forcedActive && !isBusy ? { scale: pressScale, y: 1, backgroundColor: variantStyle.pressed } : undefined}
       transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
     >
       {/* --- LAYERS --- */}
       
-      {/* 0. Surface */}
-      <motion.div style={{ ...layerWrapperStyle, zIndex: 0 }} />
+      {/* 0. Surface (fills from the left while a hold-to-confirm is held) */}
+      <ButtonLayer {...layerProps('Surface')} index={0} style={layerWrapperStyle}>
+        {confirm === 'hold' && (
+          <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', overflow: 'hidden', borderRadius: 'inherit' }}>
+            <motion.div style={{
+              position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+              backgroundColor: variantStyle.text, opacity: 0.24,
+              scaleX: holdProgress, originX: 0,
+            }} />
+          </div>
+        )}
+      </ButtonLayer>
 
-      {/* 1. Focus Ring */}
-      <motion.div 
-        style={{ ...layerWrapperStyle, zIndex: 1 }}
-        animate={{ opacity: forcedFocus ? 1 : 0, scale: forcedFocus ? 1 : 0.95 }}
-      >
-         <div style={{
-             position: 'absolute', top: '-4px', left: '-4px', right: '-4px', bottom: '-4px',
-             borderRadius: focusRadius,
-             border: `3px solid ${theme.Color.Focus.Content[1]}44`,
-         }} />
-      </motion.div>
-
-      {/* 2. Ripple Layer (for click burst) */}
-      <motion.div style={{ ...layerWrapperStyle, zIndex: 2 }}>
+      {/* 1. State Layer (hover soul that follows the cursor) */}
+      <ButtonLayer {...layerProps('State')} index={1} style={layerWrapperStyle}>
+         <StateLayer
+            color={variantStyle.text}
+            isActive={isHovered && !disabled && !isBusy}
+            x={coords.x}
+            y={coords.y}
+            width={dimensions.width}
+            height={dimensions.height}
+            opacity={0.08}
+            forced={forcedHover && !disabled}
+            curve={stateLayerCurve}
+         />
+      </ButtonLayer>
+
+      {/* 2. Focus Ring (the ring fades, the layer stays so the exploded view can outline it) */}
+      <ButtonLayer {...layerProps('Focus')} index={2} style={layerWrapperStyle}>
+         <motion.div
+             style={{
+                 position: 'absolute', top: '-4px', left: '-4px', right: '-4px', bottom: '-4px',
+                 borderRadius: focusRadius,
+                 border: `3px solid ${theme.Color.Focus.Content[1]}44`,
+             }}
+             animate={{ opacity: effectiveFocus ? 1 : 0, scale: effectiveFocus ? 1 : 0.95 }}
+         />
+      </ButtonLayer>
+
+      {/* 3. Ripple Layer (for click burst) */}
+      <ButtonLayer {...layerProps('Ripple')} index={3} style={layerWrapperStyle}>
          <div style={{ width: '100%', height: '100%', overflow: 'hidden', borderRadius: 'inherit' }}>
             <RippleLayer
                 color={variantStyle.text} // Ripple matches text color usually
@@ -254,21 +758,89 @@ const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({
                 onRippleComplete={handleRippleComplete}
                 width={dimensions.width} 
                 height={dimensions.height}
-                opacity={0.2}
+                opacity={rippleOpacity / 100}
+                duration={rippleDuration}
                 forced={forcedActive}
             />
          </div>
-      </motion.div>
+      </ButtonLayer>
       
-      {/* 3. Content */}
-      <div style={{ position: 'relative', zIndex: 3, display: 'flex', alignItems: 'center', gap: sizeStyle.gap }}>
+      {/* 4. Content (stays in layout while busy so the width never jumps) */}
+      <ButtonLayer
+        {...layerProps('Content')}
+        index={4}
+        style={{ position: 'relative', display: 'flex', alignItems: 'center', gap: sizeStyle.gap, minWidth: canShrink ? 0 : undefined, transformStyle: 'preserve-3d' }}
+        animate={{ opacity: isBusy ? 0 : 1 }}
+        transition={{ duration: 0.15 }}
+      >
         {(iconPlacement === 'left' || iconPlacement === 'iconOnly') && iconEl}
-        {iconPlacement !== 'iconOnly' && <span>{label}</span>}
+        {(iconPlacement !== 'iconOnly' || isArmed) && <span ref={labelRef} style={labelStyle}>{isArmed ? confirmLabel : label}</span>}
         {iconPlacement === 'right' && iconEl}
-      </div>
+        {shortcutHint && <kbd aria-hidden style={kbdStyle}>{shortcutHint}</kbd>}
+      </ButtonLayer>
 
-    </motion.button>
+      {/* 5. Pending (spinner, then a quick success / fail glyph) */}
+      <AnimatePresence>
+        {isBusy && (
+          <ButtonLayer
+            {...layerProps('Pending')}
+            key={feedback ?? 'pending'}
+            index={5}
+            style={{ ...layerWrapperStyle, display: 'flex', alignItems: 'center', justifyContent: 'center' }}
+            initial={{ opacity: 0, scale: 0.6 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.6 }}
+            transition={{ duration: 0.15 }}
+          >
+            {feedback
+              ? <div className={`ph-bold ${feedback === 'success' ? 'ph-check' : 'ph-x'}`} style={{ fontSize: '1.2em' }} />
+              : spinnerEl}
+          </ButtonLayer>
+        )}
+      </AnimatePresence>
+
+      {/* 6. Badge (in line after the content, or pinned to a corner) */}
+      <AnimatePresence>
+        {badge && badgeContent !== null && (
+          <ButtonLayer
+            key="badge"
+            name="Badge"
+            index={6}
+            spacing={spacing}
+            exploded={view3D}
+            highlightLayer={highlightLayer}
+            inspectColor={theme.Component.Badge[badge.tone ?? 'error'].Surface.Default}
+            aria-hidden
+            style={isBadgeFloating
+              ? layerWrapperStyle
+              : { position: 'relative', display: 'flex', transformStyle: 'preserve-3d' }}
+          >
+            <motion.div
+              style={isBadgeFloating ? { position: 'absolute', ...BADGE_CORNERS[badgePlacement as BadgeCorner] } : undefined}
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: isBusy && !isBadgeFloating ? 0 : 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.5 }}
+              transition={{ duration: 0.15 }}
+            >
+              <Badge badge={badge} floating={isBadgeFloating} />
+            </motion.div>
+          </ButtonLayer>
+        )}
+      </AnimatePresence>
+
+      {/* Confirmation hint + live announcements, kept out of the button so they don't join its name */}
+      {confirm !== 'none' && createPortal(
+        <div style={VISUALLY_HIDDEN}>
+          <span id={confirmHintId}>{confirm === 'hold' ? 'Press and hold to confirm.' : 'Press twice to confirm.'}</span>
+          <span role="status" aria-live="polite">{announcement}</span>
+        </div>,
+        document.body
+      )}
+
+    </MotionElement>
   );
-});
+};
+
+const Button = React.forwardRef(ButtonBase) as ButtonComponent;
 
 export default Button;
\ No newline at end of file
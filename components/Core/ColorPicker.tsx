@@ -14,7 +14,7 @@ interface ColorPickerProps {
 }
 
 const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange, style }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
   const [isOpen, setIsOpen] = useState(false);
 
   const handleHexChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -43,7 +43,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange, style
   const swatchStyle: React.CSSProperties = {
     width: '42px',
     height: '42px',
-    borderRadius: theme.radius['Radius.S'],
+    borderRadius: token('radius.Radius.S'),
     backgroundColor: value,
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
     cursor: 'pointer',
@@ -52,9 +52,9 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange, style
 
   const inputStyle: React.CSSProperties = {
     flex: 1,
-    padding: theme.spacing['Space.S'],
+    padding: token('spacing.Space.S'),
     height: '42px',
-    borderRadius: theme.radius['Radius.S'],
+    borderRadius: token('radius.Radius.S'),
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
     backgroundColor: theme.Color.Base.Surface[2],
     color: theme.Color.Base.Content[1],
@@ -69,22 +69,22 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, onChange, style
     bottom: '100%',
     left: 0,
     width: '100%',
-    marginBottom: theme.spacing['Space.S'],
+    marginBottom: token('spacing.Space.S'),
     backgroundColor: theme.Color.Base.Surface[2],
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
-    borderRadius: theme.radius['Radius.M'],
-    boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+    borderRadius: token('radius.Radius.M'),
+    boxShadow: token('effects.Effect.Shadow.Drop.3'),
     zIndex: 101,
-    padding: theme.spacing['Space.M'],
+    padding: token('spacing.Space.M'),
   };
 
   return (
     <div style={{ position: 'relative' }} onPointerDown={(e) => e.stopPropagation()}>
-      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: theme.spacing['Space.S'], color: theme.Color.Base.Content[2] }}>
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.S'), color: theme.Color.Base.Content[2] }}>
         {label}
       </label>
       
-      <div style={{ display: 'flex', gap: theme.spacing['Space.S'] }}>
+      <div style={{ display: 'flex', gap: token('spacing.Space.S') }}>
         <motion.div 
             style={swatchStyle} 
             onClick={() => setIsOpen(!isOpen)}
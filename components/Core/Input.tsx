@@ -14,12 +14,12 @@ interface InputProps {
 }
 
 const Input: React.FC<InputProps> = ({ label, value, onChange, type = 'text', style }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
 
   const baseInputStyle: React.CSSProperties = {
     width: '100%',
-    padding: theme.spacing['Space.S'],
-    borderRadius: theme.radius['Radius.S'],
+    padding: token('spacing.Space.S'),
+    borderRadius: token('radius.Radius.S'),
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
     backgroundColor: theme.Color.Base.Surface[2],
     color: theme.Color.Base.Content[1],
@@ -30,7 +30,7 @@ const Input: React.FC<InputProps> = ({ label, value, onChange, type = 'text', st
 
   return (
     <div onPointerDown={(e) => e.stopPropagation()}>
-      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: theme.spacing['Space.S'], color: theme.Color.Base.Content[2] }}>
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.S'), color: theme.Color.Base.Content[2] }}>
         {label}
       </label>
       <input type={type} value={value} onChange={onChange} style={{ ...baseInputStyle, ...style }} />
@@ -15,7 +15,7 @@ interface RangeSliderProps {
 }
 
 const RangeSlider: React.FC<RangeSliderProps> = ({ label, motionValue, onCommit, min = 0, max = 100 }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
   const trackRef = useRef<HTMLDivElement>(null);
   const [internalValue, setInternalValue] = useState(motionValue.get());
   const [isDragging, setIsDragging] = useState(false);
@@ -64,8 +64,8 @@ const RangeSlider: React.FC<RangeSliderProps> = ({ label, motionValue, onCommit,
 
   const numberInputStyle: React.CSSProperties = {
     width: '60px',
-    padding: theme.spacing['Space.XS'],
-    borderRadius: theme.radius['Radius.S'],
+    padding: token('spacing.Space.XS'),
+    borderRadius: token('radius.Radius.S'),
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
     backgroundColor: theme.Color.Base.Surface[2],
     color: theme.Color.Base.Content[1],
@@ -77,11 +77,11 @@ const RangeSlider: React.FC<RangeSliderProps> = ({ label, motionValue, onCommit,
 
   return (
     <div onPointerDown={(e) => e.stopPropagation()}>
-      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: theme.spacing['Space.S'], color: theme.Color.Base.Content[2] }}>
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.S'), color: theme.Color.Base.Content[2] }}>
         {label}
       </label>
       
-      <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing['Space.S'] }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: token('spacing.Space.S') }}>
         
         {/* Custom Track */}
         <div 
@@ -128,7 +128,7 @@ const RangeSlider: React.FC<RangeSliderProps> = ({ label, motionValue, onCommit,
                     border: `2px solid ${theme.Color.Accent.Surface[1]}`,
                     borderRadius: '50%',
                     transform: 'translate(-50%, -50%)',
-                    boxShadow: theme.effects['Effect.Shadow.Drop.1'],
+                    boxShadow: token('effects.Effect.Shadow.Drop.1'),
                     transition: 'transform 0.1s ease',
                     transformOrigin: 'center'
                 }} />
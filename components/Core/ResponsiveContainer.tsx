@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef } from 'react';
+import { ThemeProvider } from '../../Theme.tsx';
+import { BreakpointProvider, useBreakpoint, useElementBreakpoint } from '../../hooks/useBreakpoint.tsx';
+
+interface ResponsiveContainerProps {
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+/**
+ * 📦 Responsive Container
+ * Opt-in container queries: everything inside resolves responsive tokens and props
+ * against this box's own width instead of the window's. A button in a narrow sidebar
+ * gets mobile typography even on a desktop screen.
+ */
+const ResponsiveContainer: React.FC<React.PropsWithChildren<ResponsiveContainerProps>> = ({ style, className, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const windowBreakpoint = useBreakpoint();
+  // Until the first measurement, carry on with the outer breakpoint
+  const breakpoint = useElementBreakpoint(ref) ?? windowBreakpoint;
+
+  return (
+    <div ref={ref} className={className} style={style} data-breakpoint={breakpoint}>
+      <BreakpointProvider breakpoint={breakpoint}>
+        {/* A scope with nothing pinned: same mode and brand, tokens re-resolved for this width */}
+        <ThemeProvider>{children}</ThemeProvider>
+      </BreakpointProvider>
+    </div>
+  );
+};
+
+export default ResponsiveContainer;
@@ -19,6 +19,7 @@ interface RippleLayerProps {
   height: number;
   opacity?: number;
   forced?: boolean;
+  duration?: number; // ms
 }
 
 /**
@@ -33,7 +34,8 @@ const RippleLayer: React.FC<RippleLayerProps> = ({
   width,
   height,
   opacity = 0.25,
-  forced = false
+  forced = false,
+  duration = 2500
 }) => {
   // Calculate the diameter needed to cover the component from the center or furthest corner.
   const maxDiameter = Math.hypot(width, height) * 2.5;
@@ -95,7 +97,7 @@ const RippleLayer: React.FC<RippleLayerProps> = ({
               pointerEvents: 'none',
             }}
             transition={{
-              duration: 2.5, // Ultra-slow liquid ripple
+              duration: duration / 1000, // Default: ultra-slow liquid ripple
               ease: [0.2, 0, 0, 1], // Deep ease-out
             }}
             onAnimationComplete={() => onRippleComplete(ripple.id)}
@@ -15,7 +15,7 @@ interface SelectProps {
 }
 
 const Select: React.FC<SelectProps> = ({ label, value, onChange, options, style }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
   const [isOpen, setIsOpen] = useState(false);
 
   // Find label for current value
@@ -29,8 +29,8 @@ const Select: React.FC<SelectProps> = ({ label, value, onChange, options, style
 
   const triggerStyle: React.CSSProperties = {
     width: '100%',
-    padding: theme.spacing['Space.S'],
-    borderRadius: theme.radius['Radius.S'],
+    padding: token('spacing.Space.S'),
+    borderRadius: token('radius.Radius.S'),
     border: `1px solid ${isOpen ? theme.Color.Focus.Content[1] : theme.Color.Base.Surface[3]}`,
     backgroundColor: theme.Color.Base.Surface[2],
     color: theme.Color.Base.Content[1],
@@ -41,7 +41,7 @@ const Select: React.FC<SelectProps> = ({ label, value, onChange, options, style
     justifyContent: 'space-between',
     alignItems: 'center',
     outline: 'none',
-    transition: `border-color ${theme.time['Time.2x']} ease`,
+    transition: `border-color ${token('time.Time.2x')} ease`,
   };
 
   const dropdownStyle: React.CSSProperties = {
@@ -49,19 +49,19 @@ const Select: React.FC<SelectProps> = ({ label, value, onChange, options, style
     top: '100%',
     left: 0,
     width: '100%',
-    marginTop: theme.spacing['Space.XS'],
+    marginTop: token('spacing.Space.XS'),
     backgroundColor: theme.Color.Base.Surface[2],
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
-    borderRadius: theme.radius['Radius.S'],
-    boxShadow: theme.effects['Effect.Shadow.Drop.2'],
+    borderRadius: token('radius.Radius.S'),
+    boxShadow: token('effects.Effect.Shadow.Drop.2'),
     zIndex: 100,
     overflow: 'hidden',
-    padding: theme.spacing['Space.XS'],
+    padding: token('spacing.Space.XS'),
   };
 
   return (
     <div style={{ position: 'relative' }} onPointerDown={(e) => e.stopPropagation()}>
-      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: theme.spacing['Space.S'], color: theme.Color.Base.Content[2] }}>
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.S'), color: theme.Color.Base.Content[2] }}>
         {label}
       </label>
       
@@ -102,9 +102,9 @@ const Select: React.FC<SelectProps> = ({ label, value, onChange, options, style
                 key={option.value}
                 onClick={() => handleSelect(option.value)}
                 style={{
-                  padding: `${theme.spacing['Space.S']} ${theme.spacing['Space.M']}`,
+                  padding: `${token('spacing.Space.S')} ${token('spacing.Space.M')}`,
                   cursor: 'pointer',
-                  borderRadius: theme.radius['Radius.S'],
+                  borderRadius: token('radius.Radius.S'),
                   color: option.value === value ? theme.Color.Accent.Content[1] : theme.Color.Base.Content[1],
                   backgroundColor: option.value === value ? theme.Color.Accent.Surface[1] : 'transparent',
                   fontFamily: theme.Type.Readable.Body.M.fontFamily,
@@ -4,6 +4,15 @@
  */
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { SusStateLayerCurve } from '../../types/index.tsx';
+
+// How fast the hover soul grows / shrinks. 'liquid' is the original slow, deep ease-out.
+export const STATE_LAYER_CURVES: Record<SusStateLayerCurve, { duration: number; ease: number[] | 'linear' }> = {
+  liquid: { duration: 2.5, ease: [0.2, 0, 0, 1] },
+  smooth: { duration: 0.8, ease: [0.4, 0, 0.2, 1] },
+  snappy: { duration: 0.3, ease: [0.2, 0, 0, 1] },
+  linear: { duration: 1, ease: 'linear' },
+};
 
 interface StateLayerProps {
   color: string;
@@ -14,6 +23,7 @@ interface StateLayerProps {
   height: number;
   opacity?: number;
   forced?: boolean;
+  curve?: SusStateLayerCurve;
 }
 
 interface LayerInstance {
@@ -41,7 +51,8 @@ const StateLayer: React.FC<StateLayerProps> = ({
   width, 
   height,
   opacity = 0.1,
-  forced = false
+  forced = false,
+  curve = 'liquid'
 }) => {
   // Secret #1: Calculate the diameter needed to cover the button from any point
   const maxDiameter = Math.hypot(width, height) * 2;
@@ -124,10 +135,7 @@ const StateLayer: React.FC<StateLayerProps> = ({
                         width: layer.isActive ? maxDiameter : 0,
                         height: layer.isActive ? maxDiameter : 0,
                     }}
-                    transition={{
-                        duration: 2.5,
-                        ease: [0.2, 0, 0, 1]
-                    }}
+                    transition={STATE_LAYER_CURVES[curve] ?? STATE_LAYER_CURVES.liquid}
                     onAnimationComplete={() => {
                         if (!layer.isActive) removeLayer(layer.id);
                     }}
@@ -14,15 +14,15 @@ interface TextAreaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement
 }
 
 const TextArea: React.FC<TextAreaProps> = ({ value, onChange, onFocus, onBlur, style, ...props }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
 
   const baseStyle: React.CSSProperties = {
     ...theme.Type.Expressive.Data,
     width: '100%',
     minHeight: '200px',
     backgroundColor: theme.Color.Base.Surface[3],
-    padding: theme.spacing['Space.M'],
-    borderRadius: theme.radius['Radius.M'],
+    padding: token('spacing.Space.M'),
+    borderRadius: token('radius.Radius.M'),
     border: 'none',
     color: theme.Color.Base.Content[1],
     resize: 'none',
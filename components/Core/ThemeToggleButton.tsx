@@ -4,13 +4,21 @@
  */
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useTheme } from '../../Theme.tsx';
+import { useTheme, ThemeName } from '../../Theme.tsx';
+
+// Click cycles light → dark → system → light
+const MODES: Record<ThemeName, { next: ThemeName; label: string; icon: string }> = {
+  light: { next: 'dark', label: 'light', icon: 'ph-bold ph-sun' },
+  dark: { next: 'system', label: 'dark', icon: 'ph-bold ph-moon' },
+  system: { next: 'light', label: 'system', icon: 'ph-bold ph-desktop' },
+};
 
 const ThemeToggleButton = () => {
-  const { themeName, setThemeName, theme } = useTheme();
+  const { themeName, resolvedThemeName, setThemeName, theme, token } = useTheme();
+  const mode = MODES[themeName];
 
   const toggleTheme = () => {
-    setThemeName(themeName === 'light' ? 'dark' : 'light');
+    setThemeName(mode.next);
   };
   
   const iconVariants = {
@@ -22,11 +30,11 @@ const ThemeToggleButton = () => {
   const styles: { [key: string]: React.CSSProperties } = {
     button: {
       position: 'absolute',
-      top: theme.spacing['Space.L'],
-      right: theme.spacing['Space.L'],
+      top: token('spacing.Space.L'),
+      right: token('spacing.Space.L'),
       width: '44px',
       height: '44px',
-      borderRadius: theme.radius['Radius.Full'],
+      borderRadius: token('radius.Radius.Full'),
       backgroundColor: theme.Color.Base.Surface['2'],
       border: 'none',
       cursor: 'grab',
@@ -34,7 +42,7 @@ const ThemeToggleButton = () => {
       alignItems: 'center',
       justifyContent: 'center',
       color: theme.Color.Base.Content['2'],
-      boxShadow: theme.effects['Effect.Shadow.Drop.1'],
+      boxShadow: token('effects.Effect.Shadow.Drop.1'),
       overflow: 'hidden', // Ensures icons don't pop out during animation
       zIndex: 1001,
       touchAction: 'none',
@@ -51,10 +59,11 @@ const ThemeToggleButton = () => {
     <motion.button
       style={styles.button}
       onClick={toggleTheme}
-      aria-label={`Switch to ${themeName === 'light' ? 'dark' : 'light'} mode`}
-      whileHover={{ scale: 1.1, boxShadow: theme.effects['Effect.Shadow.Drop.2'] }}
+      aria-label={`Theme: ${themeName === 'system' ? `system (${resolvedThemeName})` : mode.label}. Switch to ${MODES[mode.next].label} mode`}
+      title={themeName === 'system' ? `Following system (${resolvedThemeName})` : undefined}
+      whileHover={{ scale: 1.1, boxShadow: token('effects.Effect.Shadow.Drop.2') }}
       whileTap={{ scale: 0.95 }}
-      whileDrag={{ scale: 1.1, cursor: 'grabbing', boxShadow: theme.effects['Effect.Shadow.Drop.3'] }}
+      whileDrag={{ scale: 1.1, cursor: 'grabbing', boxShadow: token('effects.Effect.Shadow.Drop.3') }}
       drag
       dragMomentum={false}
       transition={{ duration: 0.2 }}
@@ -62,7 +71,7 @@ const ThemeToggleButton = () => {
       <AnimatePresence mode="wait" initial={false}>
         <motion.span
           key={themeName}
-          className={themeName === 'dark' ? 'ph-bold ph-moon' : 'ph-bold ph-sun'}
+          className={mode.icon}
           style={styles.icon}
           variants={iconVariants}
           initial="hidden"
@@ -13,7 +13,7 @@ interface ToggleProps {
 }
 
 const Toggle: React.FC<ToggleProps> = ({ label, isOn, onToggle }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
 
   // Use Signal Content for the active color.
   // In Light Mode, Signal Surface is pastel, so Content (Strong Purple) gives the correct "On" state.
@@ -23,13 +23,13 @@ const Toggle: React.FC<ToggleProps> = ({ label, isOn, onToggle }) => {
   const trackStyle: React.CSSProperties = {
     width: '40px',
     height: '24px',
-    borderRadius: theme.radius['Radius.Full'],
+    borderRadius: token('radius.Radius.Full'),
     backgroundColor: isOn ? activeColor : theme.Color.Base.Surface[3],
     display: 'flex',
     alignItems: 'center',
     padding: '4px',
     cursor: 'pointer',
-    transition: `background-color ${theme.time['Time.2x']} ease`,
+    transition: `background-color ${token('time.Time.2x')} ease`,
     flexShrink: 0,
   };
 
@@ -38,7 +38,7 @@ const Toggle: React.FC<ToggleProps> = ({ label, isOn, onToggle }) => {
     height: '16px',
     borderRadius: '50%',
     backgroundColor: theme.Color.Base.Surface[1],
-    boxShadow: theme.effects['Effect.Shadow.Drop.1'],
+    boxShadow: token('effects.Effect.Shadow.Drop.1'),
   };
 
   return (
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef } from 'react';
+import {
+  SusButtonType,
+  SusButtonSize,
+  SusButtonRadius,
+  SusButtonGroupOrientation,
+  SusButtonGroupPosition,
+  SusButtonGroupSelection,
+  Responsive,
+} from '../../types/index.tsx';
+import type { ButtonProps } from '../Core/Button.tsx';
+
+interface ButtonGroupProps {
+  children: React.ReactNode;
+  // Shared look, handed down to every Button child
+  size?: Responsive<SusButtonSize>;
+  type?: SusButtonType;
+  radius?: Responsive<SusButtonRadius>;
+  orientation?: SusButtonGroupOrientation;
+  // Segmented mode: children are picked by their `value` prop
+  selection?: SusButtonGroupSelection;
+  value?: string | string[];
+  onChange?: (value: string | string[]) => void;
+  // Look of a picked segment (unpicked ones use `type`)
+  selectedType?: SusButtonType;
+  'aria-label'?: string;
+}
+
+// A Button child; in segmented mode its `value` is the string handed to onChange
+type ButtonGroupItem = React.ReactElement<ButtonProps & { value?: string }>;
+
+const ARROW_KEYS: Record<SusButtonGroupOrientation, { prev: string; next: string }> = {
+  horizontal: { prev: 'ArrowLeft', next: 'ArrowRight' },
+  vertical: { prev: 'ArrowUp', next: 'ArrowDown' },
+};
+
+/**
+ * 🧩 Button Group
+ * Glues a row (or column) of Buttons together: one shared size / type / radius,
+ * collapsed borders, and round corners only on the outside.
+ * With `selection` set it becomes a segmented control with arrow-key roving focus.
+ */
+const ButtonGroup: React.FC<ButtonGroupProps> = ({
+  children,
+  size,
+  type,
+  radius,
+  orientation = 'horizontal',
+  selection = 'none',
+  value,
+  onChange,
+  selectedType = 'primary',
+  'aria-label': ariaLabel,
+}: ButtonGroupProps) => {
+  const groupRef = useRef<HTMLDivElement>(null);
+  const items = React.Children.toArray(children).filter(React.isValidElement) as ButtonGroupItem[];
+  const isSegmented = selection !== 'none';
+
+  const selectedValues = value === undefined ? [] : Array.isArray(value) ? value : [value];
+  const isSelected = (itemValue: string) => selectedValues.includes(itemValue);
+
+  const handleSelect = (itemValue: string) => {
+    if (!onChange) return;
+    if (selection === 'single') {
+      onChange(itemValue);
+    } else {
+      onChange(isSelected(itemValue)
+        ? selectedValues.filter(v => v !== itemValue)
+        : [...selectedValues, itemValue]);
+    }
+  };
+
+  // Only one segment sits in the tab order: the picked one, or the first if nothing is picked
+  const focusIndex = Math.max(0, items.findIndex(item => isSelected(item.props.value)));
+
+  // Roving focus: arrows hop between segments (and pick them, radio style, in single mode)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!isSegmented || !groupRef.current) return;
+    const segments = Array.from(groupRef.current.children) as HTMLElement[];
+    const current = segments.indexOf(document.activeElement as HTMLElement);
+    if (current === -1) return;
+
+    const keys = ARROW_KEYS[orientation];
+    let next = current;
+    if (e.key === keys.next) next = (current + 1) % segments.length;
+    else if (e.key === keys.prev) next = (current - 1 + segments.length) % segments.length;
+    else if (e.key === 'Home') next = 0;
+    else if (e.key === 'End') next = segments.length - 1;
+    else return;
+
+    e.preventDefault();
+    segments[next].focus();
+    if (selection === 'single') segments[next].click();
+  };
+
+  const getPosition = (index: number): SusButtonGroupPosition | undefined => {
+    if (items.length < 2) return undefined;
+    if (index === 0) return 'first';
+    if (index === items.length - 1) return 'last';
+    return 'middle';
+  };
+
+  return (
+    <div
+      ref={groupRef}
+      role={selection === 'single' ? 'radiogroup' : 'group'}
+      aria-label={ariaLabel}
+      aria-orientation={isSegmented ? orientation : undefined}
+      onKeyDown={handleKeyDown}
+      style={{
+        display: 'inline-flex',
+        flexDirection: orientation === 'horizontal' ? 'row' : 'column',
+        alignItems: 'stretch',
+      }}
+    >
+      {items.map((item, index) => {
+        const position = getPosition(index);
+        const itemValue = item.props.value;
+        const picked = isSegmented && isSelected(itemValue);
+
+        const shared: Partial<ButtonProps> = {
+          size: size ?? item.props.size,
+          type: isSegmented ? (picked ? selectedType : type ?? item.props.type) : type ?? item.props.type,
+          radius: radius ?? item.props.radius,
+          attached: position ? { position, orientation } : undefined,
+        };
+
+        if (isSegmented) {
+          shared.tabIndex = index === focusIndex ? 0 : -1;
+          if (selection === 'single') {
+            shared.role = 'radio';
+            shared['aria-checked'] = picked;
+          } else {
+            shared['aria-pressed'] = picked;
+          }
+          shared.onClick = (e: React.MouseEvent<HTMLElement>) => {
+            handleSelect(itemValue);
+            return item.props.onClick?.(e);
+          };
+        }
+
+        return React.cloneElement(item, shared);
+      })}
+    </div>
+  );
+};
+
+export default ButtonGroup;
@@ -4,9 +4,15 @@
  */
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useTheme } from '../../Theme.tsx';
+import { useTheme, isResponsiveObject, resolveResponsive, DEFAULT_BRAND } from '../../Theme.tsx';
 import TextArea from '../Core/TextArea.tsx';
-import { MetaButtonProps } from '../../types/index.tsx';
+import SegmentedControl from './SegmentedControl.tsx';
+import TokenImportPanel from './TokenImportPanel.tsx';
+import { getThemeStyles } from '../Core/Button.tsx';
+import { useButtonVariants } from '../../hooks/useButtonVariants.tsx';
+import { useTokenExport } from '../../hooks/useTokenExport.tsx';
+import { MetaButtonProps, Responsive } from '../../types/index.tsx';
+import type { Breakpoint } from '../../hooks/useBreakpoint.tsx';
 
 interface CodePanelProps {
   codeText: string;
@@ -18,55 +24,43 @@ interface CodePanelProps {
 }
 
 const CodePanel: React.FC<CodePanelProps> = ({ codeText, onCodeChange, onCopyCode, onFocus, onBlur, btnProps }) => {
-  const { theme, themeName } = useTheme();
-  const [mode, setMode] = useState<'json' | 'framer'>('json');
-
-  // Helper to resolve current colors for defaults
-  const getResolvedColors = () => {
-    const isDark = themeName === 'dark';
-    const type = btnProps.type;
-    
-    const colors: Record<string, { bg: string; text: string; border: string; hover: string }> = {
-      primary: {
-        bg: isDark ? '#FFFFFF' : '#0F172A',
-        text: isDark ? '#0F172A' : '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#E2E8F0' : '#334155',
-      },
-      secondary: {
-        bg: isDark ? '#334155' : '#F1F5F9',
-        text: isDark ? '#FFFFFF' : '#0F172A',
-        border: 'transparent',
-        hover: isDark ? '#475569' : '#E2E8F0',
-      },
-      tertiary: {
-        bg: 'transparent',
-        text: isDark ? '#FFFFFF' : '#0F172A',
-        border: isDark ? '#475569' : '#CBD5E1',
-        hover: isDark ? '#1E293B' : '#F8FAFC',
-      },
-      success: {
-        bg: isDark ? '#166534' : '#10B981',
-        text: '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#14532D' : '#059669',
-      },
-      fail: {
-        bg: isDark ? '#991B1B' : '#EF4444',
-        text: '#FFFFFF',
-        border: 'transparent',
-        hover: isDark ? '#7F1D1D' : '#DC2626',
-      }
-    };
-    return colors[type] || colors.primary;
-  };
+  const { theme, token, resolvedThemeName, brandName, density } = useTheme();
+  const [mode, setMode] = useState<'json' | 'framer' | 'tokens'>('json');
+  const { customVariants } = useButtonVariants();
+  const tokenExport = useTokenExport();
 
-  const resolvedColors = getResolvedColors();
+  // Current variant colors for defaults, straight from the Button component tokens, with custom overrides on top
+  const tokenColors = getThemeStyles(btnProps.type, theme);
+  const resolvedColors = {
+    bg: btnProps.customFill || tokenColors.bg,
+    text: btnProps.customColor || tokenColors.text,
+    border: btnProps.customBorder || tokenColors.border,
+    hover: btnProps.customHover || tokenColors.hover,
+    pressed: btnProps.customHover || tokenColors.pressed,
+  };
   
+  // Framer has no breakpoint-keyed props: the plain control holds the desktop value,
+  // and Tablet / Mobile controls override it ("inherit" falls through to the next size up)
+  const atBreakpoint = (value: Responsive<string>, breakpoint: Breakpoint) => resolveResponsive(value, breakpoint);
+  const framerOverride = (value: Responsive<string>, breakpoint: 'tablet' | 'mobile') => {
+      const wider = breakpoint === 'mobile' ? atBreakpoint(value, 'tablet') : atBreakpoint(value, 'desktop');
+      const own = atBreakpoint(value, breakpoint);
+      return own === wider ? 'inherit' : own;
+  };
+
   // Helper to resolve font size based on size prop
   const getFontSize = () => {
       const sizes: Record<string, string> = { xl: '20px', l: '16px', m: '16px', s: '14px', xs: '14px' };
-      return sizes[btnProps.size] || '16px';
+      return sizes[atBreakpoint(btnProps.size, 'desktop')] || '16px';
+  };
+
+  // Plain values print as strings, per-breakpoint values as an object literal
+  const formatResponsive = (name: string, value: Responsive<string>) => {
+      if (!isResponsiveObject(value)) return `${name}="${value}"`;
+      const entries = (['mobile', 'tablet', 'desktop'] as Breakpoint[])
+          .filter(bp => value[bp] !== undefined)
+          .map(bp => `${bp}: "${value[bp]}"`);
+      return `${name}={{ ${entries.join(', ')} }}`;
   };
 
   const generateFramerCode = () => {
@@ -81,9 +75,6 @@ import { motion } from "framer-motion"
 export default function SusButton(props) {
   const { 
     label, 
-    size, 
-    radius, 
-    iconPlacement,
     iconType,
     iconName,
     customIcon,
@@ -94,12 +85,40 @@ export default function SusButton(props) {
     textColor,
     borderColor,
     hoverColor,
+    pressedColor,
     // Typography Props
     fontFamily,
     fontWeight,
-    fontSize
+    fontSize,
+    // Split Menu
+    menuItems,
+    // Off-system radius (any CSS length)
+    customRadius
   } = props
 
+  const [menuOpen, setMenuOpen] = React.useState(false)
+
+  // --- Responsive Props ---
+  // Same breakpoints as the SUS theme: mobile < 768px, tablet < 1024px
+  const [viewportWidth, setViewportWidth] = React.useState(() => typeof window === "undefined" ? 1024 : window.innerWidth)
+  React.useEffect(() => {
+    const onResize = () => setViewportWidth(window.innerWidth)
+    window.addEventListener("resize", onResize)
+    return () => window.removeEventListener("resize", onResize)
+  }, [])
+
+  const pickResponsive = (desktop, tablet, mobile) => {
+    const tabletValue = !tablet || tablet === "inherit" ? desktop : tablet
+    if (viewportWidth < 768) return !mobile || mobile === "inherit" ? tabletValue : mobile
+    if (viewportWidth < 1024) return tabletValue
+    return desktop
+  }
+
+  const size = pickResponsive(props.size, props.sizeTablet, props.sizeMobile)
+  const radius = pickResponsive(props.radius, props.radiusTablet, props.radiusMobile)
+  const iconPlacement = pickResponsive(props.iconPlacement, props.iconPlacementTablet, props.iconPlacementMobile)
+  const hasMenu = Array.isArray(menuItems) && menuItems.length > 0
+
   // --- Inject Phosphor Icons Script ---
   // This ensures icons show up in the Framer Canvas without external setup
   React.useEffect(() => {
@@ -134,7 +153,10 @@ export default function SusButton(props) {
   }
   
   const currentSize = sizes[size] || sizes.m
-  const currentRadius = radiusMap[radius] || "8px"
+  // Bare numbers count as px
+  const currentRadius = customRadius
+    ? (isNaN(Number(customRadius)) ? customRadius : \`\${customRadius}px\`)
+    : radiusMap[radius] || "8px"
 
   const style = {
     display: "inline-flex",
@@ -169,11 +191,11 @@ export default function SusButton(props) {
       )
   }
 
-  return (
+  const mainButton = (
     <motion.button
-      style={style}
+      style={hasMenu ? { ...style, borderTopRightRadius: 0, borderBottomRightRadius: 0 } : style}
       whileHover={!disabled ? { backgroundColor: hoverColor } : undefined}
-      whileTap={!disabled ? { scale: 0.98 } : undefined}
+      whileTap={!disabled ? { scale: 0.98, backgroundColor: pressedColor } : undefined}
       onClick={onTap}
     >
       {(iconPlacement === "left" || iconPlacement === "iconOnly") && iconNode}
@@ -181,6 +203,42 @@ export default function SusButton(props) {
       {iconPlacement === "right" && iconNode}
     </motion.button>
   )
+
+  if (!hasMenu) return mainButton
+
+  // --- Split Menu ---
+  return (
+    <div style={{ position: "relative", display: "inline-flex" }}>
+      {mainButton}
+      <motion.button
+        aria-label="More options"
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+        style={{ ...style, marginLeft: -1, padding: currentSize.padding.split(" ")[0], aspectRatio: "1 / 1", borderTopLeftRadius: 0, borderBottomLeftRadius: 0 }}
+        whileHover={!disabled ? { backgroundColor: hoverColor } : undefined}
+        onClick={() => !disabled && setMenuOpen(!menuOpen)}
+      >
+        <i className="ph-bold ph-caret-down" style={{ fontSize: "1.2em", lineHeight: 1 }} />
+      </motion.button>
+      {menuOpen && (
+        <div role="menu" style={{ position: "absolute", top: "100%", right: 0, marginTop: 4, padding: 4, minWidth: "100%", background: backgroundColor === "transparent" ? "#FFFFFF" : backgroundColor, color: textColor, borderRadius: 8, boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)", zIndex: 10 }}>
+          {menuItems.map((item) => (
+            <motion.div
+              key={item}
+              role="menuitem"
+              tabIndex={0}
+              style={{ padding: "8px 12px", borderRadius: 6, cursor: "pointer", whiteSpace: "nowrap", fontFamily: fontFamily }}
+              whileHover={{ backgroundColor: hoverColor }}
+              onClick={() => setMenuOpen(false)}
+              onKeyDown={(e) => (e.key === "Enter" || e.key === "Escape") && setMenuOpen(false)}
+            >
+              {item}
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
 }
 
 addPropertyControls(SusButton, {
@@ -195,9 +253,21 @@ addPropertyControls(SusButton, {
   iconPlacement: {
     type: ControlType.Enum,
     options: ["none", "left", "right", "iconOnly"],
-    defaultValue: "${btnProps.iconPlacement}",
+    defaultValue: "${atBreakpoint(btnProps.iconPlacement, 'desktop')}",
     title: "Icon Align"
   },
+  iconPlacementTablet: {
+    type: ControlType.Enum,
+    options: ["inherit", "none", "left", "right", "iconOnly"],
+    defaultValue: "${framerOverride(btnProps.iconPlacement, 'tablet')}",
+    title: "Icon Tablet"
+  },
+  iconPlacementMobile: {
+    type: ControlType.Enum,
+    options: ["inherit", "none", "left", "right", "iconOnly"],
+    defaultValue: "${framerOverride(btnProps.iconPlacement, 'mobile')}",
+    title: "Icon Mobile"
+  },
   iconType: {
     type: ControlType.Enum,
     options: ["phosphor", "custom"],
@@ -223,15 +293,45 @@ addPropertyControls(SusButton, {
   size: {
     type: ControlType.Enum,
     options: ["xl", "l", "m", "s", "xs"],
-    defaultValue: "${btnProps.size}",
+    defaultValue: "${atBreakpoint(btnProps.size, 'desktop')}",
     title: "Size"
   },
+  sizeTablet: {
+    type: ControlType.Enum,
+    options: ["inherit", "xl", "l", "m", "s", "xs"],
+    defaultValue: "${framerOverride(btnProps.size, 'tablet')}",
+    title: "Size Tablet"
+  },
+  sizeMobile: {
+    type: ControlType.Enum,
+    options: ["inherit", "xl", "l", "m", "s", "xs"],
+    defaultValue: "${framerOverride(btnProps.size, 'mobile')}",
+    title: "Size Mobile"
+  },
   radius: {
     type: ControlType.Enum,
     options: ["Sharp", "4px", "8px", "16px", "Pill"],
-    defaultValue: "${btnProps.radius}",
+    defaultValue: "${atBreakpoint(btnProps.radius, 'desktop')}",
     title: "Radius"
   },
+  radiusTablet: {
+    type: ControlType.Enum,
+    options: ["inherit", "Sharp", "4px", "8px", "16px", "Pill"],
+    defaultValue: "${framerOverride(btnProps.radius, 'tablet')}",
+    title: "Radius Tablet"
+  },
+  radiusMobile: {
+    type: ControlType.Enum,
+    options: ["inherit", "Sharp", "4px", "8px", "16px", "Pill"],
+    defaultValue: "${framerOverride(btnProps.radius, 'mobile')}",
+    title: "Radius Mobile"
+  },
+  customRadius: {
+    type: ControlType.String,
+    defaultValue: "${btnProps.customRadius?.trim() ?? ''}",
+    title: "Custom Radius",
+    placeholder: "e.g. 12px"
+  },
 
   // Colors
   backgroundColor: {
@@ -254,6 +354,11 @@ addPropertyControls(SusButton, {
     defaultValue: "${resolvedColors.hover}",
     title: "Hover Fill"
   },
+  pressedColor: {
+    type: ControlType.Color,
+    defaultValue: "${resolvedColors.pressed}",
+    title: "Pressed Fill"
+  },
 
   // Typography
   fontFamily: {
@@ -275,6 +380,14 @@ addPropertyControls(SusButton, {
     title: "Font Size"
   },
 
+  // Split Menu
+  menuItems: {
+    type: ControlType.Array,
+    title: "Menu Items",
+    control: { type: ControlType.String },
+    defaultValue: ${JSON.stringify(btnProps.split ? (btnProps.menuItems ?? []).filter(Boolean) : [])}
+  },
+
   // Interaction
   disabled: { 
     type: ControlType.Boolean, 
@@ -288,30 +401,101 @@ addPropertyControls(SusButton, {
   };
 
   const generateUsage = () => {
-      let code = `<Button\n  theme="${themeName}"\n  type="${btnProps.type}"\n  size="${btnProps.size}"`;
+      let code = '';
+
+      // Registered variants need their registration shipped alongside the usage
+      const custom = customVariants[btnProps.type];
+      if (custom) {
+          code += `registerButtonVariant("${btnProps.type}", ${JSON.stringify(custom, null, 2)})\n\n`;
+      }
+
+      // Brand and density come from the ThemeProvider, not Button props: wrap the usage in one
+      const providerProps = [
+          ...(brandName !== DEFAULT_BRAND ? [`brand="${brandName}"`] : []),
+          ...(density !== 'comfortable' ? [`density="${density}"`] : []),
+      ];
+
+      let element = `<${btnProps.split ? 'SplitButton' : 'Button'}\n  theme="${resolvedThemeName}"\n  type="${btnProps.type}"\n  ${formatResponsive('size', btnProps.size)}`;
       
       if (btnProps.radius !== '8px') {
-          code += `\n  radius="${btnProps.radius}"`;
+          element += `\n  ${formatResponsive('radius', btnProps.radius)}`;
       }
+
+      // Any breakpoint may show or hide the label / icon, so check all of them
+      const placements = (['mobile', 'tablet', 'desktop'] as Breakpoint[]).map(bp => atBreakpoint(btnProps.iconPlacement, bp));
       
-      if (btnProps.label && btnProps.iconPlacement !== 'iconOnly') {
-          code += `\n  label="${btnProps.label}"`;
+      if (btnProps.label && placements.some(p => p !== 'iconOnly')) {
+          element += `\n  label="${btnProps.label}"`;
       }
 
-      if (btnProps.iconPlacement !== 'none') {
-          code += `\n  iconPlacement="${btnProps.iconPlacement}"`;
-          if (btnProps.iconPlacement === 'left') code += `\n  leftIcon={<Icon name="${btnProps.icon}" />}`;
-          if (btnProps.iconPlacement === 'right') code += `\n  rightIcon={<Icon name="${btnProps.icon}" />}`;
-          if (btnProps.iconPlacement === 'iconOnly') code += `\n  leftIcon={<Icon name="${btnProps.icon}" />}`;
+      if (placements.some(p => p !== 'none')) {
+          element += `\n  ${formatResponsive('iconPlacement', btnProps.iconPlacement)}`;
+          if (isResponsiveObject(btnProps.iconPlacement)) {
+              // Placement moves between breakpoints, so hand over the bare icon name
+              element += `\n  icon="${btnProps.icon}"`;
+          } else {
+              if (btnProps.iconPlacement === 'left') element += `\n  leftIcon={<Icon name="${btnProps.icon}" />}`;
+              if (btnProps.iconPlacement === 'right') element += `\n  rightIcon={<Icon name="${btnProps.icon}" />}`;
+              if (btnProps.iconPlacement === 'iconOnly') element += `\n  leftIcon={<Icon name="${btnProps.icon}" />}`;
+          }
       }
 
-      if (btnProps.disabled) code += `\n  disabled`;
+      if (btnProps.maxWidth) element += `\n  maxWidth={${btnProps.maxWidth}}`;
+      if (btnProps.labelOverflow && btnProps.labelOverflow !== 'visible') element += `\n  labelOverflow="${btnProps.labelOverflow}"`;
+
+      if (btnProps.disabled) element += `\n  disabled`;
+      if (btnProps.loading) element += `\n  loading`;
+
+      // Off-system overrides, one line each
+      const overrides: [string, string | undefined][] = [
+          ['customFill', btnProps.customFill], ['customColor', btnProps.customColor],
+          ['customBorder', btnProps.customBorder], ['customHover', btnProps.customHover],
+          ['customRadius', btnProps.customRadius?.trim()],
+      ];
+      overrides.forEach(([name, value]) => {
+          if (value) element += `\n  ${name}="${value}"`;
+      });
+
+      if (btnProps.shortcut?.trim()) element += `\n  shortcut="${btnProps.shortcut.trim()}"`;
+
+      if (btnProps.confirm && btnProps.confirm !== 'none') {
+          element += `\n  confirm="${btnProps.confirm}"`;
+          if (btnProps.confirm === 'hold' && (btnProps.confirmDuration ?? 1500) !== 1500) element += `\n  confirmDuration={${btnProps.confirmDuration}}`;
+      }
 
-      code += `\n/>`;
-      return code;
+      // Badge, keeping only the fields its mode uses and anything off the defaults
+      if (btnProps.badge) {
+          const { mode, count, max, text, tone, placement, label } = btnProps.badge;
+          const fields = [`mode: "${mode}"`];
+          if (mode === 'count') fields.push(`count: ${count ?? 0}`);
+          if (mode === 'count' && max !== undefined && max !== 99) fields.push(`max: ${max}`);
+          if (mode === 'text') fields.push(`text: "${text ?? ''}"`);
+          if (tone && tone !== 'error') fields.push(`tone: "${tone}"`);
+          if (placement && placement !== 'auto') fields.push(`placement: "${placement}"`);
+          if (label) fields.push(`label: "${label}"`);
+          element += `\n  badge={{ ${fields.join(', ')} }}`;
+      }
+
+      // Interaction feel, only when it differs from the defaults
+      if ((btnProps.hoverLift ?? 2) !== 2) element += `\n  hoverLift={${btnProps.hoverLift}}`;
+      if ((btnProps.pressDepth ?? 2) !== 2) element += `\n  pressDepth={${btnProps.pressDepth}}`;
+      if ((btnProps.rippleDuration ?? 2500) !== 2500) element += `\n  rippleDuration={${btnProps.rippleDuration}}`;
+      if ((btnProps.rippleOpacity ?? 20) !== 20) element += `\n  rippleOpacity={${btnProps.rippleOpacity}}`;
+      if ((btnProps.stateLayerCurve ?? 'liquid') !== 'liquid') element += `\n  stateLayerCurve="${btnProps.stateLayerCurve}"`;
+
+      if (btnProps.split) {
+          const items = (btnProps.menuItems ?? []).filter(Boolean).map(item => `    { label: "${item}", onSelect: () => {} }`);
+          element += `\n  menuItems={[\n${items.join(',\n')}\n  ]}`;
+      }
+
+      element += `\n/>`;
+      if (providerProps.length) {
+          element = `<ThemeProvider ${providerProps.join(' ')}>\n${element.replace(/^/gm, '  ')}\n</ThemeProvider>`;
+      }
+      return code + element;
   };
 
-  const currentCode = mode === 'json' ? codeText : generateFramerCode();
+  const currentCode = mode === 'json' ? codeText : mode === 'tokens' ? tokenExport.json : generateFramerCode();
 
   const handleCopy = () => {
     if (mode === 'json') {
@@ -321,41 +505,46 @@ addPropertyControls(SusButton, {
     }
   };
 
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([tokenExport.json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = tokenExport.fileName;
+    link.click();
+    // Some browsers only start the download after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const iconButtonStyle: React.CSSProperties = {
+    background: theme.Color.Base.Surface[1],
+    border: `1px solid ${theme.Color.Base.Surface[3]}`,
+    borderRadius: token('radius.Radius.S'),
+    padding: '4px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: theme.Color.Base.Content[1],
+  };
+  const iconButtonHover = { scale: 1.1, backgroundColor: theme.Color.Accent.Surface[1], color: theme.Color.Accent.Content[1] };
+
   return (
     <>
-      <div style={{ display: 'flex', gap: '8px', marginBottom: theme.spacing['Space.S'] }}>
-         <button
-            onClick={() => setMode('json')}
-            style={{
-                background: mode === 'json' ? theme.Color.Base.Surface[3] : 'transparent',
-                color: mode === 'json' ? theme.Color.Base.Content[1] : theme.Color.Base.Content[2],
-                border: 'none',
-                padding: '4px 12px',
-                borderRadius: '4px',
-                fontSize: '12px',
-                fontWeight: 600,
-                cursor: 'pointer',
-                fontFamily: theme.Type.Expressive.Data.fontFamily
-            }}
-         >
-            JSON CONFIG
-         </button>
-         <button
-            onClick={() => setMode('framer')}
-            style={{
-                background: mode === 'framer' ? theme.Color.Base.Surface[3] : 'transparent',
-                color: mode === 'framer' ? theme.Color.Base.Content[1] : theme.Color.Base.Content[2],
-                border: 'none',
-                padding: '4px 12px',
-                borderRadius: '4px',
-                fontSize: '12px',
-                fontWeight: 600,
-                cursor: 'pointer',
-                fontFamily: theme.Type.Expressive.Data.fontFamily
-            }}
-         >
-            FRAMER COMPONENT
-         </button>
+      <div style={{ marginBottom: token('spacing.Space.S') }} onPointerDown={(e) => e.stopPropagation()}>
+        <SegmentedControl
+          aria-label="Code output"
+          options={[
+            { value: 'json', label: 'JSON CONFIG' },
+            { value: 'framer', label: 'FRAMER COMPONENT' },
+            { value: 'tokens', label: 'TOKENS' },
+          ]}
+          value={mode}
+          onChange={setMode}
+          size="xs"
+          radius="4px"
+          type="ghost"
+          selectedType="secondary"
+        />
       </div>
 
       <div style={{ position: 'relative' }}>
@@ -364,36 +553,45 @@ addPropertyControls(SusButton, {
             onChange={onCodeChange} 
             onFocus={onFocus} 
             onBlur={onBlur}
-            readOnly={mode === 'framer'}
+            readOnly={mode !== 'json'}
         />
-        <motion.button
-          onClick={handleCopy}
-          style={{
-            position: 'absolute',
-            top: theme.spacing['Space.S'],
-            right: theme.spacing['Space.S'],
-            background: theme.Color.Base.Surface[1],
-            border: `1px solid ${theme.Color.Base.Surface[3]}`,
-            borderRadius: theme.radius['Radius.S'],
-            padding: '4px',
-            cursor: 'pointer',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            color: theme.Color.Base.Content[1],
-          }}
-          whileHover={{ scale: 1.1, backgroundColor: theme.Color.Accent.Surface[1], color: theme.Color.Accent.Content[1] }}
-          whileTap={{ scale: 0.9 }}
-          aria-label={mode === 'json' ? "Copy JSON" : "Copy Code"}
-          onPointerDown={(e) => e.stopPropagation()}
-        >
-          <i className="ph-bold ph-copy" style={{ fontSize: '14px' }} />
-        </motion.button>
+        <div style={{ position: 'absolute', top: token('spacing.Space.S'), right: token('spacing.Space.S'), display: 'flex', gap: '4px' }}>
+          {mode === 'tokens' && (
+            <motion.button
+              onClick={handleDownload}
+              style={iconButtonStyle}
+              whileHover={iconButtonHover}
+              whileTap={{ scale: 0.9 }}
+              aria-label={`Download ${tokenExport.fileName}`}
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <i className="ph-bold ph-download-simple" style={{ fontSize: '14px' }} />
+            </motion.button>
+          )}
+          <motion.button
+            onClick={handleCopy}
+            style={iconButtonStyle}
+            whileHover={iconButtonHover}
+            whileTap={{ scale: 0.9 }}
+            aria-label={mode === 'json' ? "Copy JSON" : mode === 'tokens' ? "Copy Tokens" : "Copy Code"}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <i className="ph-bold ph-copy" style={{ fontSize: '14px' }} />
+          </motion.button>
+        </div>
       </div>
       
+      {mode === 'tokens' && (
+        <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[2], marginTop: token('spacing.Space.M'), marginBottom: 0 }}>
+          W3C Design Tokens (DTCG) for the active brand. Light and dark are token sets; responsive type keeps its per-breakpoint values under <code>$extensions</code>.
+        </p>
+      )}
+
+      {mode === 'tokens' && <TokenImportPanel />}
+
       {mode === 'json' && (
-        <div style={{ marginTop: theme.spacing['Space.L'] }}>
-            <p style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2], marginBottom: theme.spacing['Space.S'] }}>REACT COMPONENT</p>
+        <div style={{ marginTop: token('spacing.Space.L') }}>
+            <p style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2], marginBottom: token('spacing.Space.S') }}>REACT COMPONENT</p>
             <pre style={{ ...theme.Type.Expressive.Data, fontSize: '11px', color: theme.Color.Base.Content[2], backgroundColor: 'transparent', padding: 0, margin: 0, whiteSpace: 'pre-wrap' }}>
             {generateUsage()}
             </pre>
@@ -12,7 +12,7 @@ interface ConsolePanelProps {
 }
 
 const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
   const endRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom
@@ -34,11 +34,11 @@ const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs }) => {
       {logs.length === 0 && (
           <div style={{ 
               ...emptyTextStyle, 
-              color: theme.Color.Base.Content[3],
+              color: token('Color.Base.Content.3'),
               opacity: 0.5,
-              padding: theme.spacing['Space.S'],
+              padding: token('spacing.Space.S'),
               textAlign: 'center',
-              marginTop: theme.spacing['Space.M']
+              marginTop: token('spacing.Space.M')
           }}>
             Waiting for system events...
           </div>
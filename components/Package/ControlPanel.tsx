@@ -2,14 +2,28 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React from 'react';
-import { type MotionValue } from 'framer-motion';
-import { useTheme } from '../../Theme.tsx';
+import React, { useEffect, useState } from 'react';
+import { type MotionValue, useMotionValue } from 'framer-motion';
+import { useTheme, isResponsiveObject, resolveResponsive, getBrandLabel, ThemeName, Density, DENSITY_SCALE } from '../../Theme.tsx';
 import { MetaButtonProps } from '../../types/index.tsx';
+import { useButtonVariants, getButtonVariantLabel } from '../../hooks/useButtonVariants.tsx';
+import { useBreakpoint, getBreakpoint, type Breakpoint } from '../../hooks/useBreakpoint.tsx';
+import SegmentedControl from './SegmentedControl.tsx';
 import Input from '../Core/Input.tsx';
 import Select from '../Core/Select.tsx';
 import RangeSlider from '../Core/RangeSlider.tsx';
 import Toggle from '../Core/Toggle.tsx';
+import ColorPicker from '../Core/ColorPicker.tsx';
+import Button from '../Core/Button.tsx';
+
+type ResponsiveKey = 'size' | 'radius' | 'iconPlacement';
+
+const CUSTOM_KEYS = ['customFill', 'customColor', 'customBorder', 'customHover', 'customRadius'] as const;
+
+const BREAKPOINTS: Breakpoint[] = ['mobile', 'tablet', 'desktop'];
+
+// One width inside each breakpoint, for simulating a container on the Stage
+const CONTAINER_WIDTHS = [360, 800, 1100];
 
 interface ControlPanelProps {
   btnProps: MetaButtonProps;
@@ -18,6 +32,10 @@ interface ControlPanelProps {
   onToggleMeasurements: () => void;
   showTokens: boolean;
   onToggleTokens: () => void;
+  splitPreview: boolean;
+  onToggleSplitPreview: () => void;
+  containerWidth: number | null;
+  onContainerWidthChange: (width: number | null) => void;
   // 3D View Props
   view3D: boolean;
   onToggleView3D: () => void;
@@ -26,6 +44,31 @@ interface ControlPanelProps {
   viewRotateZ: MotionValue<number>;
 }
 
+/**
+ * A RangeSlider bound to a numeric button prop. The slider moves freely and
+ * only writes the prop (and a history entry) when you let go.
+ */
+const PropSlider = ({ label, value, min, max, onCommit }: {
+  label: string; value: number; min: number; max: number; onCommit: (value: number) => void;
+}) => {
+  const motionValue = useMotionValue(value);
+
+  // Follow outside changes (undo / redo, JSON edits)
+  useEffect(() => {
+    if (motionValue.get() !== value) motionValue.set(value);
+  }, [value, motionValue]);
+
+  return (
+    <RangeSlider
+      label={label}
+      motionValue={motionValue}
+      onCommit={(v) => { if (v !== value) onCommit(v); }}
+      min={min}
+      max={max}
+    />
+  );
+};
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
   btnProps, 
   onPropChange, 
@@ -33,16 +76,57 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onToggleMeasurements, 
   showTokens,
   onToggleTokens,
+  splitPreview,
+  onToggleSplitPreview,
+  containerWidth,
+  onContainerWidthChange,
   view3D,
   onToggleView3D,
   layerSpacing,
   viewRotateX,
   viewRotateZ
 }) => {
-  const { theme } = useTheme();
+  const { theme, token, themeName, setThemeName, brandName, setBrandName, brands, density, setDensity } = useTheme();
+  const { customVariants } = useButtonVariants();
+  const windowBreakpoint = useBreakpoint();
+  // While the Stage simulates a container, the button answers to that width
+  const breakpoint = containerWidth ? getBreakpoint(containerWidth) : windowBreakpoint;
+
+  // Per-breakpoint editing: Size / Radius / Icon Placement write to one breakpoint at a time
+  const [perBreakpoint, setPerBreakpoint] = useState(() => (['size', 'radius', 'iconPlacement'] as ResponsiveKey[]).some(key => isResponsiveObject(btnProps[key])));
+  const [editBreakpoint, setEditBreakpoint] = useState<Breakpoint>(breakpoint);
+
+  const readProp = (key: ResponsiveKey): string => {
+    return resolveResponsive<string>(btnProps[key], perBreakpoint ? editBreakpoint : breakpoint);
+  };
+
+  const writeProp = (key: ResponsiveKey, value: string) => {
+    if (!perBreakpoint) {
+      onPropChange(key, value);
+      return;
+    }
+    // Spread a plain value out to every breakpoint before overriding one of them
+    const current = btnProps[key];
+    const expanded = isResponsiveObject(current)
+      ? BREAKPOINTS.reduce((acc, bp) => ({ ...acc, [bp]: resolveResponsive<string>(current, bp) }), {} as Record<Breakpoint, string>)
+      : { mobile: current, tablet: current, desktop: current };
+    const next = { ...expanded, [editBreakpoint]: value };
+    // Same value everywhere collapses back to a plain prop
+    const uniform = BREAKPOINTS.every(bp => next[bp] === next.desktop);
+    onPropChange(key, uniform ? next.desktop : next);
+  };
+
+  const breakpointSuffix = perBreakpoint ? ` · ${editBreakpoint.charAt(0).toUpperCase()}${editBreakpoint.slice(1)}` : '';
+
+  // Every variant the theme knows about, built-in and registered
+  const typeOptions = Object.keys(theme.Component.Button).map(name => ({
+    value: name,
+    label: getButtonVariantLabel(name, customVariants),
+  }));
 
   // Helper to determine current interaction state
   const currentInteraction = btnProps.disabled ? 'disabled' 
+    : btnProps.loading ? 'loading'
     : btnProps.forcedActive ? 'active'
     : btnProps.forcedFocus ? 'focus'
     : btnProps.forcedHover ? 'hover'
@@ -52,12 +136,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     const val = e.target.value;
     const updates: Partial<MetaButtonProps> = {
       disabled: false,
+      loading: false,
       forcedHover: false,
       forcedFocus: false,
       forcedActive: false,
     };
     if (val !== 'default') {
         if (val === 'disabled') updates.disabled = true;
+        else if (val === 'loading') updates.loading = true;
         else if (val === 'hover') updates.forcedHover = true;
         else if (val === 'focus') updates.forcedFocus = true;
         else if (val === 'active') updates.forcedActive = true;
@@ -67,7 +153,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
   return (
     <>
-      <div style={{ marginBottom: theme.spacing['Space.L'] }}>
+      <div style={{ marginBottom: token('spacing.Space.L') }}>
         <h4 style={{ ...theme.Type.Readable.Title.S, margin: 0, marginBottom: '4px' }}>Properties</h4>
         <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2] }}>Core attributes of the component.</p>
       </div>
@@ -78,26 +164,40 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         onChange={(e) => onPropChange('label', e.target.value)}
       />
 
-      <div style={{ display: 'flex', gap: theme.spacing['Space.M'], marginTop: theme.spacing['Space.L'] }}>
+      <div style={{ marginTop: token('spacing.Space.L'), display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+        <Toggle
+          label="Per Breakpoint"
+          isOn={perBreakpoint}
+          onToggle={() => setPerBreakpoint(!perBreakpoint)}
+        />
+        {perBreakpoint && (
+          <SegmentedControl
+            aria-label="Breakpoint to edit"
+            options={BREAKPOINTS.map(bp => ({ value: bp, label: bp.toUpperCase() }))}
+            value={editBreakpoint}
+            onChange={setEditBreakpoint}
+            size="xs"
+            radius="4px"
+            type="ghost"
+            selectedType="secondary"
+          />
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: token('spacing.Space.M'), marginTop: token('spacing.Space.L') }}>
         <div style={{ flex: 1 }}>
           <Select
             label="Type"
             value={btnProps.type}
             onChange={(e) => onPropChange('type', e.target.value)}
-            options={[
-              { value: 'primary', label: 'Primary' },
-              { value: 'secondary', label: 'Secondary' },
-              { value: 'tertiary', label: 'Tertiary' },
-              { value: 'success', label: 'Success' },
-              { value: 'fail', label: 'Fail' },
-            ]}
+            options={typeOptions}
           />
         </div>
         <div style={{ flex: 1 }}>
           <Select
-            label="Size"
-            value={btnProps.size}
-            onChange={(e) => onPropChange('size', e.target.value)}
+            label={`Size${breakpointSuffix}`}
+            value={readProp('size')}
+            onChange={(e) => writeProp('size', e.target.value)}
             options={[
               { value: 'xl', label: 'XL (56px)' },
               { value: 'l', label: 'L (48px)' },
@@ -109,11 +209,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
       </div>
 
-      <div style={{ marginTop: theme.spacing['Space.L'] }}>
+      <div style={{ marginTop: token('spacing.Space.L') }}>
          <Select
-            label="Radius"
-            value={btnProps.radius}
-            onChange={(e) => onPropChange('radius', e.target.value)}
+            label={`Radius${breakpointSuffix}`}
+            value={readProp('radius')}
+            onChange={(e) => writeProp('radius', e.target.value)}
             options={[
                 { value: 'Sharp', label: 'Sharp (0px)' },
                 { value: '4px', label: 'Small (4px)' },
@@ -124,11 +224,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           />
       </div>
 
-      <div style={{ marginTop: theme.spacing['Space.L'] }}>
+      <div style={{ marginTop: token('spacing.Space.L') }}>
           <Select
-            label="Icon Placement"
-            value={btnProps.iconPlacement}
-            onChange={(e) => onPropChange('iconPlacement', e.target.value)}
+            label={`Icon Placement${breakpointSuffix}`}
+            value={readProp('iconPlacement')}
+            onChange={(e) => writeProp('iconPlacement', e.target.value)}
             options={[
                 { value: 'none', label: 'None' },
                 { value: 'left', label: 'Left' },
@@ -138,7 +238,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           />
       </div>
 
-      <div style={{ marginTop: theme.spacing['Space.L'] }}>
+      <div style={{ marginTop: token('spacing.Space.L') }}>
           <Select
             label="Icon"
             value={btnProps.icon || ''}
@@ -155,7 +255,130 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           />
       </div>
 
-      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${theme.spacing['Space.L']} 0` }} />
+      <div style={{ marginTop: token('spacing.Space.L'), display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+          <Select
+            label="Label Overflow"
+            value={btnProps.labelOverflow ?? 'visible'}
+            onChange={(e) => onPropChange('labelOverflow', e.target.value)}
+            options={[
+                { value: 'visible', label: 'Single Line' },
+                { value: 'truncate', label: 'Truncate (…)' },
+                { value: 'wrap', label: 'Wrap' },
+            ]}
+          />
+          <PropSlider label="Max Width (px, 0 = none)" value={btnProps.maxWidth ?? 0} min={0} max={400} onCommit={(v) => onPropChange('maxWidth', v || undefined)} />
+      </div>
+
+      <div style={{ marginTop: token('spacing.Space.L'), display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+          <Toggle
+            label="Split Menu"
+            isOn={!!btnProps.split}
+            onToggle={() => onPropChange('split', !btnProps.split)}
+          />
+          {btnProps.split && (
+            <Input
+              label="Menu Items (comma separated)"
+              value={(btnProps.menuItems ?? []).join(', ')}
+              onChange={(e) => onPropChange('menuItems', e.target.value.split(',').map(item => item.trim()))}
+            />
+          )}
+      </div>
+
+      <div style={{ marginTop: token('spacing.Space.L') }}>
+          <Input
+            label="Shortcut (e.g. mod+s)"
+            value={btnProps.shortcut ?? ''}
+            onChange={(e) => onPropChange('shortcut', e.target.value)}
+          />
+      </div>
+
+      {/* --- CONFIRMATION --- */}
+      <div style={{ marginTop: token('spacing.Space.L'), display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+          <Toggle
+            label="Require Confirmation"
+            isOn={(btnProps.confirm ?? 'none') !== 'none'}
+            onToggle={() => onPropChange('confirm', (btnProps.confirm ?? 'none') === 'none' ? 'hold' : 'none')}
+          />
+          {(btnProps.confirm ?? 'none') !== 'none' && (
+            <Select
+              label="Confirm By"
+              value={btnProps.confirm ?? 'hold'}
+              onChange={(e) => onPropChange('confirm', e.target.value)}
+              options={[
+                  { value: 'hold', label: 'Hold to Confirm' },
+                  { value: 'double', label: 'Click Twice' },
+              ]}
+            />
+          )}
+          {btnProps.confirm === 'hold' && (
+            <PropSlider label="Hold Duration (ms)" value={btnProps.confirmDuration ?? 1500} min={300} max={4000} onCommit={(v) => onPropChange('confirmDuration', v)} />
+          )}
+      </div>
+
+      {/* --- BADGE --- */}
+      <div style={{ marginTop: token('spacing.Space.L'), display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+          <Select
+            label="Badge"
+            value={btnProps.badge?.mode ?? 'none'}
+            onChange={(e) => onPropChange('badge', e.target.value === 'none'
+              ? undefined
+              : { count: 12, text: 'New', tone: 'error', placement: 'auto', ...btnProps.badge, mode: e.target.value })}
+            options={[
+                { value: 'none', label: 'None' },
+                { value: 'count', label: 'Counter' },
+                { value: 'dot', label: 'Status Dot' },
+                { value: 'text', label: 'Text' },
+            ]}
+          />
+          {btnProps.badge?.mode === 'count' && (
+            <Input
+              label="Count"
+              type="number"
+              value={String(btnProps.badge.count ?? 0)}
+              onChange={(e) => onPropChange('badge', { ...btnProps.badge, count: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          )}
+          {btnProps.badge?.mode === 'text' && (
+            <Input
+              label="Badge Text"
+              value={btnProps.badge.text ?? ''}
+              onChange={(e) => onPropChange('badge', { ...btnProps.badge, text: e.target.value })}
+            />
+          )}
+          {btnProps.badge && (
+            <div style={{ display: 'flex', gap: token('spacing.Space.M') }}>
+              <div style={{ flex: 1 }}>
+                <Select
+                  label="Tone"
+                  value={btnProps.badge.tone ?? 'error'}
+                  onChange={(e) => onPropChange('badge', { ...btnProps.badge, tone: e.target.value })}
+                  options={[
+                      { value: 'error', label: 'Error' },
+                      { value: 'signal', label: 'Signal' },
+                      { value: 'success', label: 'Success' },
+                  ]}
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <Select
+                  label="Placement"
+                  value={btnProps.badge.placement ?? 'auto'}
+                  onChange={(e) => onPropChange('badge', { ...btnProps.badge, placement: e.target.value })}
+                  options={[
+                      { value: 'auto', label: 'Auto' },
+                      { value: 'inline', label: 'Inline' },
+                      { value: 'top-right', label: 'Top Right' },
+                      { value: 'top-left', label: 'Top Left' },
+                      { value: 'bottom-right', label: 'Bottom Right' },
+                      { value: 'bottom-left', label: 'Bottom Left' },
+                  ]}
+                />
+              </div>
+            </div>
+          )}
+      </div>
+
+      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${token('spacing.Space.L')} 0` }} />
       
       {/* --- FORCED STATES --- */}
       <div style={{ width: '100%' }}>
@@ -168,19 +391,123 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     { value: 'hover', label: 'Hover' },
                     { value: 'focus', label: 'Focus' },
                     { value: 'active', label: 'Active' },
+                    { value: 'loading', label: 'Loading' },
                     { value: 'disabled', label: 'Disabled' },
                 ]}
             />
       </div>
 
-      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${theme.spacing['Space.L']} 0` }} />
+      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${token('spacing.Space.L')} 0` }} />
+
+      {/* --- INTERACTION FEEL --- */}
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.M'), color: theme.Color.Base.Content[2], textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+        Interaction Feel
+      </label>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+        <PropSlider label="Hover Lift (px)" value={btnProps.hoverLift ?? 2} min={0} max={8} onCommit={(v) => onPropChange('hoverLift', v)} />
+        <PropSlider label="Press Depth (%)" value={btnProps.pressDepth ?? 2} min={0} max={10} onCommit={(v) => onPropChange('pressDepth', v)} />
+        <PropSlider label="Ripple Duration (ms)" value={btnProps.rippleDuration ?? 2500} min={200} max={4000} onCommit={(v) => onPropChange('rippleDuration', v)} />
+        <PropSlider label="Ripple Opacity (%)" value={btnProps.rippleOpacity ?? 20} min={0} max={60} onCommit={(v) => onPropChange('rippleOpacity', v)} />
+        <Select
+          label="State Layer Growth"
+          value={btnProps.stateLayerCurve ?? 'liquid'}
+          onChange={(e) => onPropChange('stateLayerCurve', e.target.value)}
+          options={[
+            { value: 'liquid', label: 'Liquid (2.5s)' },
+            { value: 'smooth', label: 'Smooth (0.8s)' },
+            { value: 'snappy', label: 'Snappy (0.3s)' },
+            { value: 'linear', label: 'Linear (1s)' },
+          ]}
+        />
+      </div>
+
+      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${token('spacing.Space.L')} 0` }} />
+
+      {/* --- CUSTOM (OFF-SYSTEM) OVERRIDES --- */}
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.S'), color: theme.Color.Base.Content[2], textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+        Custom
+      </label>
+      <p style={{ ...theme.Type.Readable.Body.S, margin: 0, marginBottom: token('spacing.Space.M'), color: theme.Color.Base.Content[2] }}>
+        Paints over the variant tokens. Leave a field empty to use the token.
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+        <div style={{ display: 'flex', gap: token('spacing.Space.M') }}>
+          <div style={{ flex: 1 }}>
+            <ColorPicker label="Fill" value={btnProps.customFill ?? ''} onChange={(e) => onPropChange('customFill', e.target.value)} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <ColorPicker label="Text" value={btnProps.customColor ?? ''} onChange={(e) => onPropChange('customColor', e.target.value)} />
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: token('spacing.Space.M') }}>
+          <div style={{ flex: 1 }}>
+            <ColorPicker label="Border" value={btnProps.customBorder ?? ''} onChange={(e) => onPropChange('customBorder', e.target.value)} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <ColorPicker label="Hover" value={btnProps.customHover ?? ''} onChange={(e) => onPropChange('customHover', e.target.value)} />
+          </div>
+        </div>
+        <Input
+          label="Radius (px or any CSS length)"
+          value={btnProps.customRadius ?? ''}
+          onChange={(e) => onPropChange('customRadius', e.target.value)}
+        />
+        {CUSTOM_KEYS.some(key => btnProps[key]) && (
+          <div>
+            <Button
+              label="Reset to Tokens"
+              type="ghost"
+              size="xs"
+              iconPlacement="left"
+              icon="ph-arrow-counter-clockwise"
+              onClick={() => onPropChange(Object.fromEntries(CUSTOM_KEYS.map(key => [key, undefined])))}
+            />
+          </div>
+        )}
+      </div>
+
+      <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, margin: `${token('spacing.Space.L')} 0` }} />
       
       {/* --- INSPECTION TOOLS --- */}
-      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: theme.spacing['Space.M'], color: theme.Color.Base.Content[2], textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+      <label style={{ ...theme.Type.Readable.Label.S, display: 'block', marginBottom: token('spacing.Space.M'), color: theme.Color.Base.Content[2], textTransform: 'uppercase', letterSpacing: '0.05em' }}>
         Inspector
       </label>
       
-      <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'] }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+        {/* Check the Stage against every registered brand, in either mode */}
+        <div style={{ display: 'flex', gap: token('spacing.Space.M') }}>
+          <div style={{ flex: 1 }}>
+            <Select
+              label="Brand"
+              value={brandName}
+              onChange={(e) => setBrandName(e.target.value)}
+              options={Object.keys(brands).map(name => ({ value: name, label: getBrandLabel(name, brands) }))}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Select
+              label="Mode"
+              value={themeName}
+              onChange={(e) => setThemeName(e.target.value as ThemeName)}
+              options={[
+                { value: 'light', label: 'Light' },
+                { value: 'dark', label: 'Dark' },
+                { value: 'system', label: 'System' },
+              ]}
+            />
+          </div>
+        </div>
+        <Select
+          label="Density"
+          value={density}
+          onChange={(e) => setDensity(e.target.value as Density)}
+          options={(Object.keys(DENSITY_SCALE) as Density[]).map(name => ({
+            value: name,
+            label: `${name.charAt(0).toUpperCase()}${name.slice(1)} (×${DENSITY_SCALE[name]})`,
+          }))}
+        />
         <Toggle
           label="Blueprint Mode"
           isOn={showMeasurements}
@@ -191,6 +518,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           isOn={showTokens}
           onToggle={onToggleTokens}
         />
+        <Toggle
+          label="Split Light / Dark"
+          isOn={splitPreview}
+          onToggle={onToggleSplitPreview}
+        />
+        <Select
+          label="Container Width"
+          value={containerWidth ? String(containerWidth) : 'window'}
+          onChange={(e) => onContainerWidthChange(e.target.value === 'window' ? null : Number(e.target.value))}
+          options={[
+            { value: 'window', label: `Window (${windowBreakpoint})` },
+            ...CONTAINER_WIDTHS.map(width => ({ value: String(width), label: `${width}px (${getBreakpoint(width)})` })),
+          ]}
+        />
         <Toggle
           label="3D Layers"
           isOn={view3D}
@@ -199,14 +540,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         
         {view3D && (
           <div style={{ 
-            marginTop: theme.spacing['Space.S'], 
-            padding: theme.spacing['Space.M'], 
+            marginTop: token('spacing.Space.S'), 
+            padding: token('spacing.Space.M'), 
             backgroundColor: theme.Color.Base.Surface[2], 
-            borderRadius: theme.radius['Radius.M'],
+            borderRadius: token('radius.Radius.M'),
             border: `1px solid ${theme.Color.Base.Surface[3]}`,
             display: 'flex',
             flexDirection: 'column',
-            gap: theme.spacing['Space.M']
+            gap: token('spacing.Space.M')
           }}>
              <RangeSlider
               label="Layer Spacing"
@@ -33,7 +33,7 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
   children,
   footer,
 }) => {
-  const { theme } = useTheme();
+  const { theme, token } = useTheme();
   const dragControls = useDragControls();
   
   // Initialize MotionValues with the position from props. Because this component
@@ -50,8 +50,8 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
     maxHeight: '600px',
     backgroundColor: `${theme.Color.Base.Surface[1]}dd`,
     backdropFilter: 'blur(20px)',
-    borderRadius: theme.radius['Radius.L'],
-    boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+    borderRadius: token('radius.Radius.L'),
+    boxShadow: token('effects.Effect.Shadow.Drop.3'),
     border: `1px solid ${theme.Color.Base.Surface[3]}`,
     zIndex: zIndex,
     display: 'flex',
@@ -64,7 +64,7 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
     display: 'flex',
     alignItems: 'center',
     justifyContent: 'space-between',
-    padding: `0 ${theme.spacing['Space.L']}`,
+    padding: `0 ${token('spacing.Space.L')}`,
     borderBottom: `1px solid ${theme.Color.Base.Surface[2]}`,
     cursor: 'grab',
     userSelect: 'none',
@@ -73,7 +73,7 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
   };
 
   const contentStyle: React.CSSProperties = {
-    padding: theme.spacing['Space.L'],
+    padding: token('spacing.Space.L'),
     overflowY: 'auto',
     flex: 1,
     color: theme.Color.Base.Content[1],
@@ -85,7 +85,7 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
     display: 'flex',
     alignItems: 'center',
     justifyContent: 'flex-start',
-    padding: `0 ${theme.spacing['Space.L']}`,
+    padding: `0 ${token('spacing.Space.L')}`,
     borderTop: `1px solid ${theme.Color.Base.Surface[2]}`,
     cursor: 'grab',
     userSelect: 'none',
@@ -126,7 +126,7 @@ const FloatingWindow: React.FC<FloatingWindowProps> = ({
               backgroundColor: theme.Color.Error.Content[1],
               border: 'none',
               cursor: 'pointer',
-              boxShadow: theme.effects['Effect.Shadow.Inset.1'],
+              boxShadow: token('effects.Effect.Shadow.Inset.1'),
             }}
             whileHover={{ scale: 1.2 }}
             whileTap={{ scale: 0.9 }}
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { useTheme, ThemeColors } from '../../Theme.tsx';
+import { usePaletteGenerator, ContrastCheck } from '../../hooks/usePaletteGenerator.tsx';
+import ColorPicker from '../Core/ColorPicker.tsx';
+import Input from '../Core/Input.tsx';
+import Toggle from '../Core/Toggle.tsx';
+import Button from '../Core/Button.tsx';
+
+interface PalettePanelProps {
+  onLog: (message: string) => void;
+}
+
+// The live preview is just a registered brand that the Stage switches to while the toggle is on
+const PREVIEW_BRAND = 'palette-preview';
+
+const FAMILIES = ['Base', 'Accent', 'Success', 'Warning', 'Error', 'Focus', 'Signal'] as const;
+
+const toBrandName = (label: string) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * 🎨 Palette Panel
+ * Pick one or two seed colors and get a whole brand: every Color tier for light and dark,
+ * a contrast check against the Slate defaults, and a live preview on the Stage.
+ */
+const PalettePanel: React.FC<PalettePanelProps> = ({ onLog }) => {
+  const { theme, token, brandName, setBrandName, registerBrand, unregisterBrand } = useTheme();
+  const [accent, setAccent] = useState('#0369A1');
+  const [useNeutral, setUseNeutral] = useState(false);
+  const [neutral, setNeutral] = useState('#78716C');
+  const [preview, setPreview] = useState(true);
+  const [name, setName] = useState('My Brand');
+
+  const generated = usePaletteGenerator({ accent, neutral: useNeutral ? neutral : undefined });
+
+  // Keep the last good palette registered for the preview (a half-typed hex just keeps the previous one)
+  useEffect(() => {
+    if (!preview || !generated) return;
+    registerBrand(PREVIEW_BRAND, { ...generated.definition, label: 'Palette Preview' });
+  }, [preview, generated, registerBrand]);
+
+  const brandNameRef = useRef(brandName);
+  useEffect(() => {
+    brandNameRef.current = brandName;
+  }, [brandName]);
+
+  // Where the Stage goes back to when the preview ends: the brand it came from, or the one just saved
+  const restoreBrand = useRef(brandName);
+
+  useEffect(() => {
+    if (!preview) return;
+    if (brandNameRef.current !== PREVIEW_BRAND) restoreBrand.current = brandNameRef.current;
+    setBrandName(PREVIEW_BRAND);
+    return () => {
+      // Someone picked another brand meanwhile: leave their choice alone
+      if (brandNameRef.current === PREVIEW_BRAND) setBrandName(restoreBrand.current);
+      unregisterBrand(PREVIEW_BRAND);
+    };
+  }, [preview, setBrandName, unregisterBrand]);
+
+  const handleSave = () => {
+    if (!generated) return;
+    const brand = toBrandName(name);
+    if (!brand) {
+      onLog('Palette: give the brand a name first');
+      return;
+    }
+    const problems = registerBrand(brand, { ...generated.definition, label: name.trim() });
+    if (problems.length) {
+      onLog(`Palette: couldn't register "${brand}" (${problems.join(', ')})`);
+      return;
+    }
+    restoreBrand.current = brand;
+    if (preview) setPreview(false);
+    else setBrandName(brand);
+    onLog(`Brand registered: ${brand}`);
+  };
+
+  const handleCopy = () => {
+    if (!generated) return;
+    navigator.clipboard.writeText(JSON.stringify(generated.definition, null, 2));
+    onLog('Palette JSON copied to clipboard');
+  };
+
+  const { tag, ...dataStyle } = theme.Type.Expressive.Data;
+
+  const sectionLabel: React.CSSProperties = {
+    ...theme.Type.Readable.Label.S,
+    display: 'block',
+    margin: `${token('spacing.Space.L')} 0 ${token('spacing.Space.S')}`,
+    color: theme.Color.Base.Content[2],
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+  };
+
+  const renderSwatches = (mode: 'light' | 'dark', colors: ThemeColors) => (
+    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      <div style={{ ...dataStyle, color: theme.Color.Base.Content[3] }}>{mode}</div>
+      {FAMILIES.map(family => {
+        const tiers = Object.entries(colors.Color[family]).flatMap(([tier, steps]) =>
+          Object.entries(steps as Record<string, string>).map(([step, hex]) => ({ path: `${family}.${tier}.${step}`, hex })));
+        return (
+          <div key={family} style={{ display: 'flex', alignItems: 'center', gap: '3px' }}>
+            <div style={{ ...dataStyle, fontSize: '10px', width: '52px', color: theme.Color.Base.Content[2] }}>{family}</div>
+            {tiers.map(({ path, hex }) => (
+              <div
+                key={path}
+                title={`${path} ${hex}`}
+                style={{ width: '14px', height: '14px', borderRadius: '3px', backgroundColor: hex, border: `1px solid ${theme.Color.Base.Surface[3]}` }}
+              />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderCheck = (check: ContrastCheck) => {
+    const delta = check.generated - check.reference;
+    const status = Math.abs(delta) < 0.1 ? 'matches' : delta > 0 ? 'higher' : 'lower';
+    return (
+      <div
+        key={`${check.mode}-${check.foreground}`}
+        style={{ ...dataStyle, fontSize: '11px', display: 'flex', gap: token('spacing.Space.S'), color: theme.Color.Base.Content[2] }}
+      >
+        <div style={{ width: '36px', color: theme.Color.Base.Content[3] }}>{check.mode}</div>
+        <div style={{ flex: 1 }}>{check.foreground}</div>
+        <div style={{ width: '44px', textAlign: 'right' }}>{check.reference.toFixed(2)}</div>
+        <div style={{ width: '44px', textAlign: 'right', color: theme.Color.Base.Content[1] }}>{check.generated.toFixed(2)}</div>
+        <div style={{ width: '52px', textAlign: 'right', color: status === 'lower' ? theme.Color.Warning.Content[1] : theme.Color.Success.Content[1] }}>{status}</div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div style={{ marginBottom: token('spacing.Space.L') }}>
+        <h4 style={{ ...theme.Type.Readable.Title.S, margin: 0, marginBottom: '4px' }}>Palette Generator</h4>
+        <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2] }}>
+          One brand color in, a full light + dark theme out, tuned to Slate's contrast.
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+        <ColorPicker label="Brand Color" value={accent} onChange={(e) => setAccent(e.target.value)} />
+        <Toggle label="Tint Grays With a Second Seed" isOn={useNeutral} onToggle={() => setUseNeutral(!useNeutral)} />
+        {useNeutral && <ColorPicker label="Neutral Seed" value={neutral} onChange={(e) => setNeutral(e.target.value)} />}
+        <Toggle label="Preview on Stage" isOn={preview} onToggle={() => setPreview(!preview)} />
+      </div>
+
+      {!generated && (
+        <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Error.Content[1] }}>Seeds need to be hex colors (#RGB or #RRGGBB).</p>
+      )}
+
+      {generated && (
+        <>
+          <label style={sectionLabel}>Palette</label>
+          <div style={{ display: 'flex', gap: token('spacing.Space.M') }}>
+            {renderSwatches('light', generated.definition.light)}
+            {renderSwatches('dark', generated.definition.dark)}
+          </div>
+
+          <label style={sectionLabel}>Contrast vs Slate</label>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+            {generated.contrast.map(renderCheck)}
+          </div>
+
+          <label style={sectionLabel}>Keep It</label>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: token('spacing.Space.M') }}>
+            <Input label="Brand Name" value={name} onChange={(e) => setName(e.target.value)} />
+            <div style={{ display: 'flex', gap: token('spacing.Space.S') }}>
+              <Button label="Register Brand" type="primary" size="s" iconPlacement="left" icon="ph-plus" onClick={handleSave} />
+              <Button label="Copy JSON" type="ghost" size="s" iconPlacement="left" icon="ph-copy" onClick={handleCopy} />
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default PalettePanel;
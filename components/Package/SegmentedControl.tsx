@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import Button from '../Core/Button.tsx';
+import ButtonGroup from './ButtonGroup.tsx';
+import { SusButtonType, SusButtonSize, SusButtonRadius, Responsive } from '../../types/index.tsx';
+
+interface SegmentedOption<T extends string> {
+  value: T;
+  label: string;
+  icon?: string;
+}
+
+interface SegmentedControlBaseProps<T extends string> {
+  options: SegmentedOption<T>[];
+  size?: Responsive<SusButtonSize>;
+  radius?: Responsive<SusButtonRadius>;
+  type?: SusButtonType;
+  selectedType?: SusButtonType;
+  'aria-label'?: string;
+}
+
+// Single select hands back one value, `multiple` the whole selection
+type SegmentedControlProps<T extends string> =
+  | SegmentedControlBaseProps<T> & { multiple?: false; value: T; onChange: (value: T) => void }
+  | SegmentedControlBaseProps<T> & { multiple: true; value: T[]; onChange: (value: T[]) => void };
+
+/**
+ * 🎚️ Segmented Control
+ * A ButtonGroup in segmented mode, fed from a plain list of options.
+ */
+const SegmentedControl = <T extends string>(props: SegmentedControlProps<T>) => {
+  const {
+    options,
+    value,
+    multiple = false,
+    size = 's',
+    radius = '8px',
+    type = 'tertiary',
+    selectedType = 'primary',
+    'aria-label': ariaLabel,
+  } = props;
+
+  // ButtonGroup speaks plain strings; the options guarantee they're T
+  const handleChange = (next: string | string[]) => {
+    if (props.multiple === true) props.onChange(next as T[]);
+    else props.onChange(next as T);
+  };
+
+  return (
+    <ButtonGroup
+      selection={multiple ? 'multiple' : 'single'}
+      value={value}
+      onChange={handleChange}
+      size={size}
+      radius={radius}
+      type={type}
+      selectedType={selectedType}
+      aria-label={ariaLabel}
+    >
+      {options.map(option => (
+        <Button
+          key={option.value}
+          value={option.value}
+          label={option.label}
+          icon={option.icon}
+          iconPlacement={option.icon ? 'left' : 'none'}
+        />
+      ))}
+    </ButtonGroup>
+  );
+};
+
+export default SegmentedControl;
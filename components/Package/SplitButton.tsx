@@ -0,0 +1,365 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useRef, useEffect, useId } from 'react';
+import { motion, AnimatePresence, type MotionValue } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import Button, { getThemeStyles } from '../Core/Button.tsx';
+import RippleLayer, { Ripple } from '../Core/RippleLayer.tsx';
+import ButtonGroup from './ButtonGroup.tsx';
+import {
+  SusButtonType,
+  SusButtonSize,
+  SusButtonRadius,
+  SusButtonIconPlacement,
+  SusMenuItem,
+  SusStateLayerCurve,
+  SusButtonBadge,
+  SusButtonConfirmMode,
+  SusButtonLayer,
+  SusButtonLabelOverflow,
+  Responsive,
+} from '../../types/index.tsx';
+
+// Typed letters within this window are joined into one typeahead search.
+const TYPEAHEAD_RESET = 500;
+
+interface SplitButtonProps {
+  label: string;
+  menuItems: SusMenuItem[];
+  type?: SusButtonType;
+  size?: Responsive<SusButtonSize>;
+  radius?: Responsive<SusButtonRadius>;
+  iconPlacement?: Responsive<SusButtonIconPlacement>;
+  icon?: string;
+  // Long labels on the main segment: cap the width, then cut or wrap (see Button)
+  maxWidth?: number | string;
+  labelOverflow?: SusButtonLabelOverflow;
+  badge?: SusButtonBadge; // Sits on the main segment
+  shortcut?: string; // Triggers the main action
+  confirm?: SusButtonConfirmMode; // Guards the main action only, picking from the menu stays one step
+  confirmDuration?: number;
+  disabled?: boolean;
+  loading?: boolean;
+  onClick?: (e: React.MouseEvent<HTMLElement>) => void | Promise<unknown>;
+  menuLabel?: string;
+  // Stage / inspector pass-through for the main segment
+  layerSpacing?: MotionValue<number>;
+  view3D?: boolean;
+  highlightLayer?: SusButtonLayer | null;
+  forcedHover?: boolean;
+  forcedFocus?: boolean;
+  forcedActive?: boolean;
+  // Interaction feel, shared by both segments
+  hoverLift?: number;
+  pressDepth?: number;
+  rippleDuration?: number;
+  rippleOpacity?: number;
+  stateLayerCurve?: SusStateLayerCurve;
+  // Off-system overrides (see Button): both segments, and the menu paints with them too
+  customFill?: string;
+  customColor?: string;
+  customBorder?: string;
+  customHover?: string;
+  customRadius?: string;
+}
+
+interface MenuItemRowProps {
+  item: SusMenuItem;
+  isActive: boolean;
+  colors: { text: string; hover: string };
+  onSelect: () => void;
+  onHover: () => void;
+  itemRef: (el: HTMLDivElement | null) => void;
+}
+
+/**
+ * One row of the menu. Keeps its own ripples so a pick gets the same burst as a Button click.
+ */
+const MenuItemRow: React.FC<MenuItemRowProps> = ({ item, isActive, colors, onSelect, onHover, itemRef }) => {
+  const { theme, token } = useTheme();
+  const [ripples, setRipples] = useState<Ripple[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (item.disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const keyboard = e.detail === 0;
+    setSize({ width: rect.width, height: rect.height });
+    setRipples(prev => [...prev, {
+      id: Date.now() + Math.random(),
+      x: keyboard ? rect.width / 2 : e.clientX - rect.left,
+      y: keyboard ? rect.height / 2 : e.clientY - rect.top,
+    }]);
+    onSelect();
+  };
+
+  return (
+    <motion.div
+      ref={itemRef}
+      role="menuitem"
+      tabIndex={isActive ? 0 : -1}
+      aria-disabled={item.disabled || undefined}
+      onClick={handleClick}
+      onPointerEnter={onHover}
+      animate={{ backgroundColor: isActive && !item.disabled ? colors.hover : 'rgba(0,0,0,0)' }}
+      transition={{ duration: 0.15 }}
+      style={{
+        position: 'relative',
+        display: 'flex',
+        alignItems: 'center',
+        gap: token('spacing.Space.S'),
+        padding: `${token('spacing.Space.S')} ${token('spacing.Space.M')}`,
+        borderRadius: token('radius.Radius.S'),
+        color: colors.text,
+        opacity: item.disabled ? 0.4 : 1,
+        cursor: item.disabled ? 'not-allowed' : 'pointer',
+        outline: 'none',
+        overflow: 'hidden',
+        fontFamily: theme.Type.Readable.Body.M.fontFamily,
+        fontSize: '14px',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      <RippleLayer
+        color={colors.text}
+        ripples={ripples}
+        onRippleComplete={(id) => setRipples(prev => prev.filter(r => r.id !== id))}
+        width={size.width}
+        height={size.height}
+        opacity={0.2}
+      />
+      {item.icon && <i className={`ph-bold ${item.icon}`} style={{ position: 'relative' }} />}
+      <span style={{ position: 'relative' }}>{item.label}</span>
+    </motion.div>
+  );
+};
+
+/**
+ * 🔀 Split Button
+ * A main action plus a caret segment that opens a menu of alternatives
+ * ("Save" → "Save as…", "Save a copy"). The menu speaks arrows, Home / End,
+ * typeahead and Escape, and paints itself with the Button variant colors.
+ */
+const SplitButton = React.forwardRef<HTMLButtonElement, SplitButtonProps>(({
+  label,
+  menuItems,
+  type = 'primary',
+  size = 'm',
+  radius = '8px',
+  iconPlacement = 'none',
+  icon,
+  maxWidth,
+  labelOverflow,
+  badge,
+  shortcut,
+  confirm,
+  confirmDuration,
+  disabled = false,
+  loading = false,
+  onClick,
+  menuLabel = 'More options',
+  layerSpacing,
+  view3D,
+  highlightLayer,
+  forcedHover,
+  forcedFocus,
+  forcedActive,
+  hoverLift,
+  pressDepth,
+  rippleDuration,
+  rippleOpacity,
+  stateLayerCurve,
+  customFill,
+  customColor,
+  customBorder,
+  customHover,
+  customRadius,
+}: SplitButtonProps, ref: React.ForwardedRef<HTMLButtonElement>) => {
+  const { theme, token } = useTheme();
+  const menuId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const caretRef = useRef<HTMLButtonElement>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const typeahead = useRef({ query: '', timer: 0 });
+
+  const feel = { hoverLift, pressDepth, rippleDuration, rippleOpacity, stateLayerCurve };
+  const overrides = { customFill, customColor, customBorder, customHover, customRadius };
+
+  // Menu surface follows the segments (variant, then overrides); see-through ones fall back to the page surface
+  const variant = getThemeStyles(type, theme);
+  const menuColors = {
+    bg: customFill || variant.bg,
+    border: customBorder || variant.border,
+    text: customColor || variant.text,
+    hover: customHover || variant.hover,
+  };
+  const menuBg = menuColors.bg === 'transparent' ? theme.Color.Base.Surface[1] : menuColors.bg;
+  const menuBorder = menuColors.border === 'transparent' ? theme.Color.Base.Surface[3] : menuColors.border;
+
+  // Move real DOM focus along with the highlighted row
+  useEffect(() => {
+    if (isOpen) itemRefs.current[activeIndex]?.focus();
+  }, [isOpen, activeIndex]);
+
+  useEffect(() => () => window.clearTimeout(typeahead.current.timer), []);
+
+  const enabledIndexes = menuItems.map((item, i) => (item.disabled ? -1 : i)).filter(i => i !== -1);
+
+  const openMenu = (focus: 'first' | 'last') => {
+    if (disabled || enabledIndexes.length === 0) return;
+    setActiveIndex(focus === 'first' ? enabledIndexes[0] : enabledIndexes[enabledIndexes.length - 1]);
+    setIsOpen(true);
+  };
+
+  const closeMenu = (returnFocus = true) => {
+    setIsOpen(false);
+    if (returnFocus) caretRef.current?.focus();
+  };
+
+  const selectItem = (index: number) => {
+    const item = menuItems[index];
+    if (!item || item.disabled) return;
+    item.onSelect?.();
+    closeMenu();
+  };
+
+  const moveActive = (step: 1 | -1) => {
+    const pos = enabledIndexes.indexOf(activeIndex);
+    const next = (pos + step + enabledIndexes.length) % enabledIndexes.length;
+    setActiveIndex(enabledIndexes[next]);
+  };
+
+  // Jump to the first enabled item starting with what the user just typed
+  const runTypeahead = (char: string) => {
+    const state = typeahead.current;
+    window.clearTimeout(state.timer);
+    state.query += char.toLowerCase();
+    state.timer = window.setTimeout(() => { state.query = ''; }, TYPEAHEAD_RESET);
+
+    const match = enabledIndexes.find(i => menuItems[i].label.toLowerCase().startsWith(state.query));
+    if (match !== undefined) setActiveIndex(match);
+  };
+
+  const handleCaretKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); openMenu('first'); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); openMenu('last'); }
+  };
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case 'ArrowDown': e.preventDefault(); moveActive(1); break;
+      case 'ArrowUp': e.preventDefault(); moveActive(-1); break;
+      case 'Home': e.preventDefault(); setActiveIndex(enabledIndexes[0]); break;
+      case 'End': e.preventDefault(); setActiveIndex(enabledIndexes[enabledIndexes.length - 1]); break;
+      case 'Escape': e.preventDefault(); closeMenu(); break;
+      case 'Tab': closeMenu(false); break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        itemRefs.current[activeIndex]?.click(); // Goes through the row so it ripples too
+        break;
+      default:
+        if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) runTypeahead(e.key);
+    }
+  };
+
+  const menuStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    minWidth: '100%',
+    marginTop: token('spacing.Space.XS'),
+    padding: token('spacing.Space.XS'),
+    backgroundColor: menuBg,
+    border: `1px solid ${menuBorder}`,
+    borderRadius: token('radius.Radius.M'),
+    boxShadow: token('effects.Effect.Shadow.Drop.2'),
+    zIndex: 100,
+    transformOrigin: 'top right',
+  };
+
+  return (
+    <div style={{ position: 'relative', display: 'inline-flex', transformStyle: 'preserve-3d' }}>
+      <ButtonGroup type={type} size={size} radius={radius}>
+        <Button
+          ref={ref}
+          label={label}
+          iconPlacement={iconPlacement}
+          icon={icon}
+          maxWidth={maxWidth}
+          labelOverflow={labelOverflow}
+          badge={badge}
+          shortcut={shortcut}
+          confirm={confirm}
+          confirmDuration={confirmDuration}
+          disabled={disabled}
+          loading={loading}
+          onClick={onClick}
+          layerSpacing={layerSpacing}
+          view3D={view3D}
+          highlightLayer={highlightLayer}
+          forcedHover={forcedHover}
+          forcedFocus={forcedFocus}
+          forcedActive={forcedActive}
+          {...overrides}
+          {...feel}
+        />
+        <Button
+          ref={caretRef}
+          label={menuLabel}
+          iconPlacement="iconOnly"
+          icon="ph-caret-down"
+          disabled={disabled}
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+          aria-controls={isOpen ? menuId : undefined}
+          onClick={() => (isOpen ? closeMenu() : openMenu('first'))}
+          onKeyDown={handleCaretKeyDown}
+          {...overrides}
+          {...feel}
+        />
+      </ButtonGroup>
+
+      {/* Backdrop for click outside */}
+      {isOpen && (
+        <div
+          style={{ position: 'fixed', top: 0, left: 0, width: '100vw', height: '100vh', zIndex: 99, cursor: 'default' }}
+          onClick={() => closeMenu(false)}
+        />
+      )}
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            id={menuId}
+            role="menu"
+            aria-label={menuLabel}
+            style={menuStyle}
+            onKeyDown={handleMenuKeyDown}
+            initial={{ opacity: 0, y: -6, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -6, scale: 0.96 }}
+            transition={{ duration: 0.15 }}
+          >
+            {menuItems.map((item, i) => (
+              <MenuItemRow
+                key={`${item.label}-${i}`}
+                item={item}
+                isActive={i === activeIndex}
+                colors={{ text: menuColors.text, hover: menuColors.hover }}
+                onSelect={() => selectItem(i)}
+                onHover={() => !item.disabled && setActiveIndex(i)}
+                itemRef={(el) => { itemRefs.current[i] = el; }}
+              />
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+});
+
+export default SplitButton;
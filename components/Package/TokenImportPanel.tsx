@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useRef } from 'react';
+import { useTheme } from '../../Theme.tsx';
+import { useTokenImport, TokenImportResult } from '../../hooks/useTokenImport.tsx';
+import TextArea from '../Core/TextArea.tsx';
+import Button from '../Core/Button.tsx';
+
+// Long lists (every missing color) stay readable: the first few, then a count
+const PREVIEW_COUNT = 8;
+
+/**
+ * 📥 Token Import Panel
+ * Paste or load a Tokens Studio / Figma Variables / DTCG export, apply it live,
+ * and see what mapped, what's missing and what the file has that SUS doesn't.
+ */
+const TokenImportPanel: React.FC = () => {
+  const { theme, token } = useTheme();
+  const { importTokens, applyImport, resetImport } = useTokenImport();
+  const [source, setSource] = useState('');
+  const [result, setResult] = useState<TokenImportResult | null>(null);
+  const [isApplied, setIsApplied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleApply = () => {
+    const next = importTokens(source);
+    setResult(next);
+    if (next.mapped.length) {
+      applyImport(next);
+      setIsApplied(true);
+    }
+  };
+
+  const handleReset = () => {
+    resetImport();
+    setIsApplied(false);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSource(await file.text());
+    e.target.value = ''; // Same file again should still fire
+  };
+
+  const { tag, ...dataStyle } = theme.Type.Expressive.Data;
+
+  const renderList = (title: string, items: string[], color: string) => {
+    if (!items.length) return null;
+    return (
+      <div style={{ marginTop: token('spacing.Space.S') }}>
+        <div style={{ ...theme.Type.Readable.Label.S, color }}>{title} ({items.length})</div>
+        <div style={{ ...dataStyle, fontSize: '11px', color: theme.Color.Base.Content[2], wordBreak: 'break-word' }}>
+          {items.slice(0, PREVIEW_COUNT).join(', ')}
+          {items.length > PREVIEW_COUNT && ` … ${items.length - PREVIEW_COUNT} more`}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ marginTop: token('spacing.Space.L') }}>
+      <p style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2], marginBottom: token('spacing.Space.S') }}>IMPORT</p>
+      <TextArea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder="Paste a Tokens Studio, Figma Variables or DTCG JSON export"
+        style={{ minHeight: '120px' }}
+      />
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} style={{ display: 'none' }} />
+      <div style={{ display: 'flex', gap: token('spacing.Space.S'), marginTop: token('spacing.Space.S') }}>
+        <Button label="Apply" type="primary" size="xs" iconPlacement="left" icon="ph-upload-simple" disabled={!source.trim()} onClick={handleApply} />
+        <Button label="Load File" type="ghost" size="xs" iconPlacement="left" icon="ph-file-arrow-up" onClick={() => fileInputRef.current?.click()} />
+        {isApplied && (
+          <Button label="Reset" type="ghost" size="xs" iconPlacement="left" icon="ph-arrow-counter-clockwise" onClick={handleReset} />
+        )}
+      </div>
+
+      {result && (
+        <div style={{ marginTop: token('spacing.Space.M') }}>
+          <div style={{ ...theme.Type.Readable.Body.S, color: result.mapped.length ? theme.Color.Success.Content[1] : theme.Color.Error.Content[1] }}>
+            {result.mapped.length ? `Applied ${result.mapped.length} tokens.` : 'Nothing in the file maps onto SUS tokens.'}
+          </div>
+          {renderList('Problems', result.problems, theme.Color.Error.Content[1])}
+          {renderList('Missing (defaults kept)', result.missing, theme.Color.Warning.Content[1])}
+          {renderList('Unmapped', result.unmapped, theme.Color.Base.Content[2])}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenImportPanel;
@@ -14,13 +14,13 @@ interface UndoRedoProps {
 }
 
 const UndoRedo: React.FC<UndoRedoProps> = ({ onUndo, onRedo, canUndo, canRedo }) => {
-  const { theme } = useTheme();
+  const { token } = useTheme();
 
   return (
     <div
       style={{
         display: 'flex',
-        gap: theme.spacing['Space.S'],
+        gap: token('spacing.Space.S'),
         width: '100%',
         justifyContent: 'flex-start',
         alignItems: 'center',
@@ -17,10 +17,11 @@ const DOCK_ITEMS = [
   { id: 'control' as WindowId, icon: 'ph-sliders', label: 'Control' },
   { id: 'code' as WindowId, icon: 'ph-code', label: 'Code' },
   { id: 'console' as WindowId, icon: 'ph-terminal-window', label: 'Console' },
+  { id: 'palette' as WindowId, icon: 'ph-palette', label: 'Palette' },
 ];
 
 const Dock: React.FC<DockProps> = ({ windows, toggleWindow }) => {
-    const { theme } = useTheme();
+    const { theme, token } = useTheme();
 
     return (
       <motion.div
@@ -28,16 +29,16 @@ const Dock: React.FC<DockProps> = ({ windows, toggleWindow }) => {
         dragMomentum={false}
         style={{
           position: 'absolute',
-          bottom: theme.spacing['Space.L'],
+          bottom: token('spacing.Space.L'),
           left: '50%',
           x: '-50%',
           display: 'flex',
-          gap: theme.spacing['Space.S'],
-          padding: theme.spacing['Space.S'],
+          gap: token('spacing.Space.S'),
+          padding: token('spacing.Space.S'),
           backgroundColor: `${theme.Color.Base.Surface[1]}aa`,
           backdropFilter: 'blur(16px)',
           borderRadius: '24px', // Peel shape
-          boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+          boxShadow: token('effects.Effect.Shadow.Drop.3'),
           border: `1px solid ${theme.Color.Base.Surface[3]}`,
           zIndex: 1000,
         }}
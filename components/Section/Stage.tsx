@@ -2,11 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { motion, MotionValue, useTransform, AnimatePresence } from 'framer-motion';
-import { useTheme } from '../../Theme.tsx';
-import Button from '../Core/Button.tsx';
-import { MetaButtonProps } from '../../types/index.tsx';
+import { useTheme, resolveResponsive, ThemeProvider, DENSITY_SCALE } from '../../Theme.tsx';
+import { useBreakpoint } from '../../hooks/useBreakpoint.tsx';
+import Button, { BUTTON_LAYER_TONES } from '../Core/Button.tsx';
+import { getBadgeContent } from '../Core/Badge.tsx';
+import SplitButton from '../Package/SplitButton.tsx';
+import ResponsiveContainer from '../Core/ResponsiveContainer.tsx';
+import { MetaButtonProps, SusButtonBadge, SusButtonLayer } from '../../types/index.tsx';
 import { useElementAnatomy, ElementAnatomy, NormalizedRect } from '../../hooks/useElementAnatomy.tsx';
 
 // --- HELPER TYPES & COMPONENTS ---
@@ -14,8 +18,12 @@ import { useElementAnatomy, ElementAnatomy, NormalizedRect } from '../../hooks/u
 interface StageProps {
   btnProps: MetaButtonProps;
   onButtonClick: () => void;
+  onMenuSelect: (item: string) => void;
   showMeasurements: boolean;
   showTokens: boolean;
+  splitPreview: boolean;
+  // Simulated container width in px: the button resolves its breakpoint from this instead of the window
+  containerWidth: number | null;
   view3D: boolean;
   viewRotateX: MotionValue<number>;
   viewRotateZ: MotionValue<number>;
@@ -87,12 +95,15 @@ const DimensionLine = ({
  * 🧱 Blueprint Overlay
  */
 const BlueprintOverlay: React.FC<{ anatomy: ElementAnatomy }> = ({ anatomy }) => {
-    const { theme } = useTheme();
+    const { theme, density } = useTheme();
     const { width, height, padding, children, gap } = anatomy;
     
     const LINE_OFFSET = 24;
     const colorDim = theme.Color.Warning.Content['1'];
     const colorLayout = theme.Color.Signal.Content['1'];
+    const colorCut = theme.Color.Error.Content['1'];
+    const textRect = children.text;
+    const textMetrics = anatomy.text.text;
     const CANVAS_PAD = 100;
     
     return (
@@ -130,6 +141,31 @@ const BlueprintOverlay: React.FC<{ anatomy: ElementAnatomy }> = ({ anatomy }) =>
                 {padding.left > 0 && <DimensionLine x1={0} y1={height} x2={padding.left} y2={height} label={`${Math.round(padding.left)}`} offset={LINE_OFFSET} color={colorLayout} position="bottom" />}
                 {gap > 1 && children.icon && children.text && <DimensionLine x1={children.icon.x + children.icon.width} y1={height} x2={children.text.x} y2={height} label={`${Math.round(gap)}`} offset={LINE_OFFSET} color={colorLayout} position="bottom" />}
                 {padding.right > 0 && <DimensionLine x1={width - padding.right} y1={height} x2={width} y2={height} label={`${Math.round(padding.right)}`} offset={LINE_OFFSET} color={colorLayout} position="bottom" />}
+
+                {/* The measurements above are the scaled ones; say what they're scaled from */}
+                {density !== 'comfortable' && (
+                    <text x={0} y={height + LINE_OFFSET + 28} fill={colorLayout} fontSize="10" fontFamily={theme.Type.Expressive.Data.fontFamily} fontWeight="bold">
+                        {`${density} ×${DENSITY_SCALE[density]}`}
+                    </text>
+                )}
+
+                {/* Label overflow: line count for wrapped text, and where an ellipsis cuts in */}
+                {textRect && textMetrics && textMetrics.lines > 1 && (
+                    <text x={width + 8} y={textRect.y + textRect.height / 2} fill={colorLayout} fontSize="10" fontFamily={theme.Type.Expressive.Data.fontFamily} fontWeight="bold" dominantBaseline="middle">
+                        {textMetrics.lines} lines
+                    </text>
+                )}
+                {textRect && textMetrics?.truncation && (
+                    <g>
+                        <line
+                            x1={textMetrics.truncation.x} y1={-8} x2={textMetrics.truncation.x} y2={height + 8}
+                            stroke={colorCut} strokeWidth="1" strokeDasharray="3 2"
+                        />
+                        <text x={textMetrics.truncation.x} y={-12} fill={colorCut} fontSize="10" fontFamily={theme.Type.Expressive.Data.fontFamily} fontWeight="bold" textAnchor="middle">
+                            {`cut ${textMetrics.truncation.visibleChars}/${textMetrics.truncation.totalChars}`}
+                        </text>
+                    </g>
+                )}
             </g>
         </svg>
       </div>
@@ -179,7 +215,13 @@ const TokenBadge: React.FC<TokenBadgeProps> = ({ label, variant, x, y, targetX,
 };
 
 const TokenOverlay: React.FC<{ anatomy: ElementAnatomy; btnProps: MetaButtonProps }> = ({ anatomy, btnProps }) => {
+  const { theme } = useTheme();
   const { width, height, children, gap, padding } = anatomy;
+  // Same lookup Button does: unknown variants fall back to primary
+  const variant = btnProps.type in theme.Component.Button ? btnProps.type : 'primary';
+  const breakpoint = useBreakpoint();
+  const size = resolveResponsive(btnProps.size, breakpoint).toUpperCase();
+  const radius = resolveResponsive(btnProps.radius, breakpoint);
   const PAD = 100;
   
   const getTokenVariant = (label: string): FeedbackVariant => {
@@ -189,19 +231,35 @@ const TokenOverlay: React.FC<{ anatomy: ElementAnatomy; btnProps: MetaButtonProp
     return 'Error';
   };
 
+  // Custom overrides replace the token name with the raw value, flagged in Error red
+  const offSystem = (value: string) => `off-system ${value}`;
+
   const tokens: TokenBadgeProps[] = [
-    { label: `Radius.${btnProps.radius}`, variant: 'Focus', x: -40, y: -40, targetX: 8, targetY: 8, delay: 0.1 },
-    { label: `Padding.${btnProps.size.toUpperCase()}`, variant: 'Warning', x: -60, y: height / 2, targetX: padding.left / 2, targetY: height / 2, delay: 0.2 },
-    { label: `Color.${btnProps.type}`, variant: 'Signal', x: width + 50, y: height + 40, targetX: width - 20, targetY: height - 10, delay: 0.3 },
+    btnProps.customRadius
+      ? { label: offSystem(btnProps.customRadius), variant: 'Error', x: -40, y: -40, targetX: 8, targetY: 8, delay: 0.1 }
+      : { label: `Radius.${radius}`, variant: 'Focus', x: -40, y: -40, targetX: 8, targetY: 8, delay: 0.1 },
+    { label: `Padding.${size}`, variant: 'Warning', x: -60, y: height / 2, targetX: padding.left / 2, targetY: height / 2, delay: 0.2 },
+    btnProps.customFill
+      ? { label: offSystem(btnProps.customFill), variant: 'Error', x: width + 50, y: height + 40, targetX: width - 20, targetY: height - 10, delay: 0.3 }
+      : { label: `Button.${variant}.Surface`, variant: 'Signal', x: width + 50, y: height + 40, targetX: width - 20, targetY: height - 10, delay: 0.3 },
   ];
 
   if (children.text) {
      const textCenter = children.text.x + children.text.width / 2;
-     tokens.push({ label: `Type.${btnProps.size.toUpperCase()}`, variant: 'Success', x: textCenter, y: -50, targetX: textCenter, targetY: children.text.y + 4, delay: 0.4 });
+     tokens.push({ label: `Type.${size}`, variant: 'Success', x: textCenter, y: -50, targetX: textCenter, targetY: children.text.y + 4, delay: 0.4 });
+     if (btnProps.customColor) {
+        tokens.push({ label: offSystem(btnProps.customColor), variant: 'Error', x: width + 60, y: -30, targetX: children.text.x + children.text.width, targetY: children.text.y + children.text.height / 2, delay: 0.5 });
+     }
+  }
+  if (btnProps.customBorder) {
+     tokens.push({ label: offSystem(btnProps.customBorder), variant: 'Error', x: -60, y: height + 40, targetX: 0, targetY: height - 8, delay: 0.5 });
+  }
+  if (btnProps.customHover) {
+     tokens.push({ label: `${offSystem(btnProps.customHover)} (hover)`, variant: 'Error', x: width + 60, y: height / 2, targetX: width, targetY: height / 2, delay: 0.6 });
   }
   if (gap > 0 && children.icon) {
      const gapCenter = children.icon.x + children.icon.width + gap / 2;
-     tokens.push({ label: `Gap.${btnProps.size.toUpperCase()}`, variant: 'Warning', x: gapCenter, y: height + 50, targetX: gapCenter, targetY: height / 2, delay: 0.6 });
+     tokens.push({ label: `Gap.${size}`, variant: 'Warning', x: gapCenter, y: height + 50, targetX: gapCenter, targetY: height / 2, delay: 0.6 });
   }
 
   return (
@@ -216,22 +274,31 @@ const TokenOverlay: React.FC<{ anatomy: ElementAnatomy; btnProps: MetaButtonProp
 };
 
 interface HUDItemProps {
-    layer: { label: string; stroke: string; fill: string };
+    layer: { label: SusButtonLayer; stroke: string; fill: string };
     gap: MotionValue<number>;
     isLast: boolean;
+    isActive: boolean;
+    onHover: (layer: SusButtonLayer | null) => void;
 }
 
-const HUDItem: React.FC<HUDItemProps> = ({ layer, gap, isLast }) => {
-    const { theme } = useTheme();
+const HUDItem: React.FC<HUDItemProps> = ({ layer, gap, isLast, isActive, onHover }) => {
+    const { theme, token } = useTheme();
     
     return (
-        <motion.div style={{
-            marginBottom: isLast ? 0 : gap,
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'flex-start',
-            gap: '12px'
-        }}>
+        <motion.div
+            onPointerEnter={() => onHover(layer.label)}
+            onPointerLeave={() => onHover(null)}
+            animate={{ x: isActive ? 6 : 0 }}
+            style={{
+                marginBottom: isLast ? 0 : gap,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'flex-start',
+                gap: '12px',
+                pointerEvents: 'auto', // The HUD itself lets clicks through, its rows don't
+                cursor: 'default',
+            }}
+        >
            {/* Connector Dot */}
            <div style={{ 
                width: 6, 
@@ -239,7 +306,7 @@ const HUDItem: React.FC<HUDItemProps> = ({ layer, gap, isLast }) => {
                borderRadius: '50%', 
                backgroundColor: layer.fill,
                border: `1.5px solid ${layer.stroke}`,
-               boxShadow: theme.effects['Effect.Shadow.Drop.1'],
+               boxShadow: token('effects.Effect.Shadow.Drop.1'),
                flexShrink: 0
            }} />
            
@@ -253,7 +320,7 @@ const HUDItem: React.FC<HUDItemProps> = ({ layer, gap, isLast }) => {
                padding: '0 8px',
                height: '20px',
                borderRadius: '10px', // Pill shape
-               border: `1px solid ${layer.stroke}`,
+               border: `${isActive ? 2 : 1}px solid ${layer.stroke}`,
                whiteSpace: 'nowrap',
                display: 'flex',
                alignItems: 'center',
@@ -269,16 +336,30 @@ const HUDItem: React.FC<HUDItemProps> = ({ layer, gap, isLast }) => {
 /**
  * 🥞 Layer Stack HUD (2D Overlay)
  */
-const LayerStackHUD = ({ layerSpacing }: { layerSpacing: MotionValue<number> }) => {
-    const { theme } = useTheme();
+interface LayerStackHUDProps {
+    layerSpacing: MotionValue<number>;
+    badge?: SusButtonBadge;
+    highlightLayer: SusButtonLayer | null;
+    onHighlightLayer: (layer: SusButtonLayer | null) => void;
+}
+
+const LayerStackHUD = ({ layerSpacing, badge, highlightLayer, onHighlightLayer }: LayerStackHUDProps) => {
+    const { theme, token } = useTheme();
     
     const gap = useTransform(layerSpacing, [0, 150], [4, 32]);
     
-    const layers = [
-        { label: 'Content', stroke: theme.Color.Success.Content[1], fill: theme.Color.Success.Surface[1] },
-        { label: 'Ripple', stroke: theme.Color.Focus.Content[1], fill: theme.Color.Focus.Surface[1] },
-        { label: 'Focus', stroke: theme.Color.Signal.Content[1], fill: theme.Color.Signal.Surface[1] },
-        { label: 'Surface', stroke: theme.Color.Error.Content[1], fill: theme.Color.Error.Surface[1] }, 
+    // The badge layer only exists while there's a badge to show, painted in its own tone
+    const badgeTokens = badge && getBadgeContent(badge) !== null ? theme.Component.Badge[badge.tone ?? 'error'] : null;
+
+    // Same colors the exploded Button outlines its layers with
+    const stackLayers: Exclude<SusButtonLayer, 'Badge'>[] = ['Pending', 'Content', 'Ripple', 'Focus', 'State', 'Surface'];
+    const layers: HUDItemProps['layer'][] = [
+        ...(badgeTokens ? [{ label: 'Badge' as const, stroke: badgeTokens.Content.Default, fill: badgeTokens.Surface.Default }] : []),
+        ...stackLayers.map(label => ({
+            label,
+            stroke: theme.Color[BUTTON_LAYER_TONES[label]].Content[1],
+            fill: theme.Color[BUTTON_LAYER_TONES[label]].Surface[1],
+        })),
     ];
 
     return (
@@ -301,7 +382,7 @@ const LayerStackHUD = ({ layerSpacing }: { layerSpacing: MotionValue<number> })
             <span style={{ 
                 ...theme.Type.Readable.Label.S, 
                 color: theme.Color.Base.Content[3], 
-                marginBottom: theme.spacing['Space.S'], 
+                marginBottom: token('spacing.Space.S'), 
                 textAlign: 'left',
                 textTransform: 'uppercase',
                 letterSpacing: '0.05em',
@@ -315,19 +396,109 @@ const LayerStackHUD = ({ layerSpacing }: { layerSpacing: MotionValue<number> })
                     layer={layer} 
                     gap={gap} 
                     isLast={i === layers.length - 1} 
+                    isActive={highlightLayer === layer.label}
+                    onHover={onHighlightLayer}
                 />
             ))}
         </motion.div>
     );
 };
 
+/**
+ * 🌓 Split Preview Panel
+ * One half of the light/dark comparison. Sits inside its own nested ThemeProvider,
+ * so the surface and the button both pick up that mode.
+ */
+const SplitPreviewPanel = ({ children }: React.PropsWithChildren<{}>) => {
+    const { theme, token, resolvedThemeName } = useTheme();
+
+    return (
+        <div style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: token('spacing.Space.XL'),
+            padding: token('spacing.Space.XL'),
+            minWidth: 0,
+            backgroundColor: theme.Color.Base.Surface[1],
+            border: `1px solid ${theme.Color.Base.Surface[3]}`,
+            borderRadius: token('radius.Radius.XL'),
+            transition: `background-color ${token('time.Time.3x')} ease`,
+        }}>
+            <span style={{
+                ...theme.Type.Readable.Label.S,
+                color: theme.Color.Base.Content[3],
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+            }}>
+                {resolvedThemeName}
+            </span>
+            <div style={{ transform: 'scale(1.5)' }}>{children}</div>
+        </div>
+    );
+};
+
+// Reads the breakpoint from inside the container, so it shows what the button actually gets
+const ContainerLabel = ({ width }: { width: number }) => {
+    const { theme } = useTheme();
+    const breakpoint = useBreakpoint();
+
+    return (
+        <span style={{
+            ...theme.Type.Expressive.Data,
+            position: 'absolute',
+            top: '8px',
+            left: '12px',
+            fontSize: '11px',
+            color: theme.Color.Base.Content[3],
+        }}>
+            {width}px · {breakpoint}
+        </span>
+    );
+};
+
+/**
+ * 📦 Container Frame
+ * A dashed box of the simulated width. Everything inside it is responsive to the box,
+ * not the browser window.
+ */
+const ContainerFrame = ({ width, children }: React.PropsWithChildren<{ width: number }>) => {
+    const { theme, token } = useTheme();
+
+    return (
+        <ResponsiveContainer style={{
+            position: 'relative',
+            width: `${width}px`,
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '48px 24px',
+            perspective: '1000px',
+            border: `1px dashed ${theme.Color.Base.Content[3]}`,
+            borderRadius: token('radius.Radius.L'),
+        }}>
+            <ContainerLabel width={width} />
+            {children}
+        </ResponsiveContainer>
+    );
+};
+
 // --- MAIN COMPONENT ---
 
+// Degrees of orbit per pixel dragged
+const ORBIT_SPEED = 0.4;
+
 const Stage: React.FC<StageProps> = ({ 
     btnProps, 
     onButtonClick, 
+    onMenuSelect,
     showMeasurements, 
     showTokens,
+    splitPreview,
+    containerWidth,
     view3D,
     viewRotateX,
     viewRotateZ,
@@ -335,7 +506,69 @@ const Stage: React.FC<StageProps> = ({
 }) => {
   const buttonRef = useRef<HTMLButtonElement>(null);
   const containerRotateZ = useTransform(viewRotateZ, v => -v);
-  const anatomy = useElementAnatomy(buttonRef, { icon: 'i', text: 'span' }, [btnProps, showMeasurements, showTokens, view3D]);
+  const [highlightLayer, setHighlightLayer] = useState<SusButtonLayer | null>(null);
+
+  // Orbit: in 3D mode, dragging the empty stage turns the view (the Rotate sliders follow along)
+  const orbit = useRef<{ pointerId: number; x: number; y: number; rotateX: number; rotateZ: number } | null>(null);
+  const [isOrbiting, setIsOrbiting] = useState(false);
+
+  const handleOrbitStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view3D || e.button !== 0) return;
+    // Leave the button (and its menu) to do their own thing
+    if ((e.target as HTMLElement).closest('button, a, [role="button"], [role="menu"]')) return;
+    orbit.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, rotateX: viewRotateX.get(), rotateZ: viewRotateZ.get() };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsOrbiting(true);
+  };
+  const handleOrbitMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = orbit.current;
+    if (!start || start.pointerId !== e.pointerId) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    viewRotateX.set(Math.min(90, Math.max(0, start.rotateX - dy * ORBIT_SPEED)));
+    viewRotateZ.set((((start.rotateZ - dx * ORBIT_SPEED) % 360) + 360) % 360);
+  };
+  const handleOrbitEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (orbit.current?.pointerId !== e.pointerId) return;
+    orbit.current = null;
+    setIsOrbiting(false);
+  };
+  const { density } = useTheme();
+  const { split, menuItems, ...buttonProps } = btnProps;
+  const anatomy = useElementAnatomy(buttonRef, { icon: 'i', text: 'span' }, [btnProps, showMeasurements, showTokens, view3D, splitPreview, containerWidth, density]);
+
+  const simulate = (content: React.ReactNode) => containerWidth ? <ContainerFrame width={containerWidth}>{content}</ContainerFrame> : content;
+
+  // Same button, once per mode. No overlays or 3D here: those inspect a single instance.
+  if (splitPreview) {
+    // Only the first copy binds the shortcut: two would clash in the Stage's ShortcutScope
+    const { shortcut, ...previewProps } = buttonProps;
+    const renderPreview = (withShortcut: boolean) => split ? (
+        <SplitButton
+            {...previewProps}
+            shortcut={withShortcut ? shortcut : undefined}
+            menuItems={(menuItems ?? []).filter(Boolean).map(item => ({ label: item, onSelect: () => onMenuSelect(item) }))}
+            onClick={onButtonClick}
+        />
+    ) : (
+        <Button {...previewProps} shortcut={withShortcut ? shortcut : undefined} onClick={onButtonClick} />
+    );
+
+    return (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '80px', width: '100%', maxWidth: containerWidth ? undefined : '960px' }}>
+            {simulate(
+                <div style={{ display: 'flex', gap: '24px', width: '100%' }}>
+                    <ThemeProvider mode="light">
+                        <SplitPreviewPanel>{renderPreview(true)}</SplitPreviewPanel>
+                    </ThemeProvider>
+                    <ThemeProvider mode="dark">
+                        <SplitPreviewPanel>{renderPreview(false)}</SplitPreviewPanel>
+                    </ThemeProvider>
+                </div>
+            )}
+        </div>
+    );
+  }
 
   return (
     <div style={{ 
@@ -347,31 +580,60 @@ const Stage: React.FC<StageProps> = ({
         perspective: '1000px',
         width: '100%',
         height: '100%',
-    }}>
-        <motion.div 
-            style={{ 
-                position: 'relative', 
-                display: 'inline-block',
-                transformStyle: 'preserve-3d',
-                rotateX: view3D ? viewRotateX : 0,
-                rotateZ: view3D ? containerRotateZ : 0,
-                scale: 1.5,
-            }}
-            transition={{ type: 'spring', damping: 20, stiffness: 100 }}
-        >
-            <Button 
-                ref={buttonRef} 
-                {...btnProps} 
-                onClick={onButtonClick} 
-                layerSpacing={layerSpacing}
-                view3D={view3D}
-            />
-            {showMeasurements && anatomy && <BlueprintOverlay anatomy={anatomy} />}
-            {showTokens && anatomy && <TokenOverlay anatomy={anatomy} btnProps={btnProps} />}
-        </motion.div>
+        cursor: view3D ? (isOrbiting ? 'grabbing' : 'grab') : undefined,
+        touchAction: view3D ? 'none' : undefined,
+    }}
+        onPointerDown={handleOrbitStart}
+        onPointerMove={handleOrbitMove}
+        onPointerUp={handleOrbitEnd}
+        onPointerCancel={handleOrbitEnd}
+    >
+        {simulate(
+            <motion.div 
+                style={{ 
+                    position: 'relative', 
+                    display: 'inline-block',
+                    transformStyle: 'preserve-3d',
+                    rotateX: view3D ? viewRotateX : 0,
+                    rotateZ: view3D ? containerRotateZ : 0,
+                    scale: 1.5,
+                }}
+                transition={{ type: 'spring', damping: 20, stiffness: 100 }}
+            >
+                {split ? (
+                    <SplitButton
+                        ref={buttonRef}
+                        {...buttonProps}
+                        menuItems={(menuItems ?? []).filter(Boolean).map(item => ({ label: item, onSelect: () => onMenuSelect(item) }))}
+                        onClick={onButtonClick}
+                        layerSpacing={layerSpacing}
+                        view3D={view3D}
+                        highlightLayer={highlightLayer}
+                    />
+                ) : (
+                    <Button 
+                        ref={buttonRef} 
+                        {...buttonProps} 
+                        onClick={onButtonClick} 
+                        layerSpacing={layerSpacing}
+                        view3D={view3D}
+                        highlightLayer={highlightLayer}
+                    />
+                )}
+                {showMeasurements && anatomy && <BlueprintOverlay anatomy={anatomy} />}
+                {showTokens && anatomy && <TokenOverlay anatomy={anatomy} btnProps={btnProps} />}
+            </motion.div>
+        )}
 
         <AnimatePresence>
-            {view3D && <LayerStackHUD layerSpacing={layerSpacing} />}
+            {view3D && (
+                <LayerStackHUD
+                    layerSpacing={layerSpacing}
+                    badge={btnProps.badge}
+                    highlightLayer={highlightLayer}
+                    onHighlightLayer={setHighlightLayer}
+                />
+            )}
         </AnimatePresence>
     </div>
   );
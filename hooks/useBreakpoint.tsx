@@ -2,11 +2,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState, useEffect, createContext, useContext } from 'react';
+import React, { useState, useEffect, useLayoutEffect, createContext, useContext } from 'react';
 
 export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
 
-const getBreakpoint = (width: number): Breakpoint => {
+export const getBreakpoint = (width: number): Breakpoint => {
   if (width < 768) {
     return 'mobile';
   } else if (width < 1024) {
@@ -18,22 +18,26 @@ const getBreakpoint = (width: number): Breakpoint => {
 
 const BreakpointContext = createContext<Breakpoint>('desktop');
 
-export const BreakpointProvider = ({ children }: React.PropsWithChildren<{}>) => {
+// Without `breakpoint` it follows the window; with one, everything inside uses that instead
+export const BreakpointProvider = ({ breakpoint: pinned, children }: React.PropsWithChildren<{ breakpoint?: Breakpoint }>) => {
   const [breakpoint, setBreakpoint] = useState<Breakpoint>(() => getBreakpoint(window.innerWidth));
+  const isPinned = pinned !== undefined;
 
   useEffect(() => {
+    if (isPinned) return; // Pinned from outside (a ResponsiveContainer): the window doesn't matter
     const handleResize = () => {
       setBreakpoint(getBreakpoint(window.innerWidth));
     };
 
+    handleResize(); // Catch up on anything missed while pinned
     window.addEventListener('resize', handleResize);
     return () => {
       window.removeEventListener('resize', handleResize);
     };
-  }, []);
+  }, [isPinned]);
 
   return (
-    <BreakpointContext.Provider value={breakpoint}>
+    <BreakpointContext.Provider value={pinned ?? breakpoint}>
       {children}
     </BreakpointContext.Provider>
   );
@@ -41,4 +45,27 @@ export const BreakpointProvider = ({ children }: React.PropsWithChildren<{}>) =>
 
 export const useBreakpoint = (): Breakpoint => {
   return useContext(BreakpointContext);
-};
\ No newline at end of file
+};
+
+// The breakpoint an element's own width falls into; null until it has been measured
+export const useElementBreakpoint = (ref: React.RefObject<HTMLElement>): Breakpoint | null => {
+  const [breakpoint, setBreakpoint] = useState<Breakpoint | null>(null);
+
+  // Measure before paint so the first frame already has the right tokens
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    // Layout widths (not getBoundingClientRect), so a scaled or rotated parent doesn't skew them
+    setBreakpoint(getBreakpoint(element.offsetWidth));
+
+    const observer = new ResizeObserver(([entry]) => {
+      setBreakpoint(getBreakpoint(entry.borderBoxSize[0].inlineSize));
+    });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+    };
+  }, [ref]);
+
+  return breakpoint;
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useCallback, useMemo, createContext, useContext } from 'react';
+import { SusBuiltInButtonType } from '../types/index.tsx';
+
+export const BUILT_IN_BUTTON_TYPES: SusBuiltInButtonType[] = ['primary', 'secondary', 'tertiary', 'ghost', 'success', 'fail'];
+
+// Colors for one mode. Values are hex / CSS colors or semantic aliases like '{Color.Signal.Content.1}'.
+export interface ButtonVariantColors {
+  surface: string;
+  content: string;
+  border?: string;  // Defaults to 'transparent'
+  hover: string;
+  pressed?: string; // Defaults to the hover color
+}
+
+export interface ButtonVariantDefinition {
+  label?: string; // Shown in pickers, defaults to the capitalised name
+  light: ButtonVariantColors;
+  dark: ButtonVariantColors;
+}
+
+type ButtonVariantRegistryContextType = {
+  customVariants: Record<string, ButtonVariantDefinition>;
+  // Returns the problems found; the variant is only registered when the list is empty
+  registerButtonVariant: (name: string, definition: ButtonVariantDefinition) => string[];
+  unregisterButtonVariant: (name: string) => void;
+};
+
+const ButtonVariantRegistryContext = createContext<ButtonVariantRegistryContextType>({
+  customVariants: {},
+  registerButtonVariant: () => ['No ButtonVariantRegistry above this component'],
+  unregisterButtonVariant: () => {},
+});
+
+/**
+ * 🎨 Button Variant Registry
+ * Lets an app add its own Button types ("upsell", "warning"...) at runtime.
+ * ThemeProvider turns every registered variant into Component.Button tokens,
+ * so Buttons, pickers, overlays and code exports all see it without any type edits.
+ */
+export const ButtonVariantRegistry = ({ variants = {}, children }: React.PropsWithChildren<{ variants?: Record<string, ButtonVariantDefinition> }>) => {
+  const [customVariants, setCustomVariants] = useState<Record<string, ButtonVariantDefinition>>(variants);
+
+  const registerButtonVariant = useCallback((name: string, definition: ButtonVariantDefinition) => {
+    if ((BUILT_IN_BUTTON_TYPES as string[]).includes(name)) return [`"${name}" is a built-in Button type`];
+    setCustomVariants(prev => ({ ...prev, [name]: definition }));
+    return [];
+  }, []);
+
+  const unregisterButtonVariant = useCallback((name: string) => {
+    setCustomVariants(prev => {
+      if (!(name in prev)) return prev;
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const value = useMemo(
+    () => ({ customVariants, registerButtonVariant, unregisterButtonVariant }),
+    [customVariants, registerButtonVariant, unregisterButtonVariant]
+  );
+
+  return (
+    <ButtonVariantRegistryContext.Provider value={value}>
+      {children}
+    </ButtonVariantRegistryContext.Provider>
+  );
+};
+
+export const useButtonVariants = () => {
+  return useContext(ButtonVariantRegistryContext);
+};
+
+// Friendly name for pickers: registered label, or 'upsell' → 'Upsell'
+export const getButtonVariantLabel = (name: string, customVariants: Record<string, ButtonVariantDefinition>) => {
+  return customVariants[name]?.label ?? name.charAt(0).toUpperCase() + name.slice(1);
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect } from 'react';
+
+export type ColorScheme = 'light' | 'dark';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const getColorScheme = (): ColorScheme => {
+  if (typeof window === 'undefined' || !window.matchMedia) return 'light';
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+};
+
+// The OS / browser color scheme, kept up to date when the user flips it mid-session
+export const useSystemColorScheme = (): ColorScheme => {
+  const [scheme, setScheme] = useState<ColorScheme>(getColorScheme);
+
+  useEffect(() => {
+    if (!window.matchMedia) return;
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = () => setScheme(query.matches ? 'dark' : 'light');
+
+    handleChange(); // It may have changed between first render and now
+    query.addEventListener('change', handleChange);
+    return () => {
+      query.removeEventListener('change', handleChange);
+    };
+  }, []);
+
+  return scheme;
+};
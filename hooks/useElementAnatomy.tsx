@@ -18,6 +18,12 @@ export interface NormalizedRect {
   height: number;
 }
 
+export interface TextMetrics {
+  lines: number;
+  // Set when an ellipsis cuts the text: x of the cut (relative to container 0,0) and how much still shows
+  truncation: { x: number; visibleChars: number; totalChars: number } | null;
+}
+
 export interface ElementAnatomy {
   // Container Metrics (CSS Pixels)
   width: number;
@@ -33,6 +39,9 @@ export interface ElementAnatomy {
 
   // Normalized Children Coordinates (Relative to container 0,0)
   children: Record<string, NormalizedRect | null>;
+
+  // Line count / truncation for children that hold text (null for icons and other non-text parts)
+  text: Record<string, TextMetrics | null>;
   
   // Calculated Spacing
   gap: number;
@@ -42,6 +51,47 @@ interface Selectors {
   [key: string]: string;
 }
 
+// Counts the characters left of `clipRight` (viewport px). Character boxes only move right, so halve the range.
+const countVisibleChars = (textNode: Text, clipRight: number) => {
+  const range = document.createRange();
+  let low = 0;
+  let high = textNode.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    range.setStart(textNode, mid - 1);
+    range.setEnd(textNode, mid);
+    if (range.getBoundingClientRect().right <= clipRight + 0.5) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+const measureText = (child: HTMLElement, containerLeft: number, scale: number): TextMetrics | null => {
+  const textNode = Array.from(child.childNodes).find((node): node is Text => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim());
+  if (!textNode) return null;
+
+  const computed = window.getComputedStyle(child);
+  const fontSize = parseFloat(computed.fontSize) || 16;
+  const lineHeight = parseFloat(computed.lineHeight) || fontSize * 1.2; // 'normal' doesn't parse
+  const lines = Math.max(1, Math.round(child.clientHeight / lineHeight));
+
+  if (child.scrollWidth <= child.clientWidth) return { lines, truncation: null };
+
+  // The ellipsis starts after the last character that still fits inside the clip edge
+  const childRect = child.getBoundingClientRect();
+  const clipRight = childRect.left + child.clientWidth * scale;
+  const visibleChars = countVisibleChars(textNode, clipRight);
+  const range = document.createRange();
+  range.setStart(textNode, 0);
+  range.setEnd(textNode, visibleChars);
+  const cutRight = visibleChars > 0 ? range.getBoundingClientRect().right : childRect.left;
+
+  return {
+    lines,
+    truncation: { x: (cutRight - containerLeft) / scale, visibleChars, totalChars: textNode.length },
+  };
+};
+
 /**
  * 🕵️‍♂️ Inspector Engine
  * A robust hook that acts as a "DevTools" library for specific elements.
@@ -88,6 +138,7 @@ export const useElementAnatomy = (
 
       // 5. Measure Children & Normalize
       const childrenMetrics: Record<string, NormalizedRect | null> = {};
+      const textMetrics: Record<string, TextMetrics | null> = {};
       let firstChildRect: NormalizedRect | null = null;
       let lastChildRect: NormalizedRect | null = null;
 
@@ -105,12 +156,14 @@ export const useElementAnatomy = (
           };
           
           childrenMetrics[key] = normalized;
+          textMetrics[key] = measureText(child, rect.left, scaleX);
           
           // Track for Gap calculation
           if (!firstChildRect || normalized.x < firstChildRect.x) firstChildRect = normalized;
           if (!lastChildRect || normalized.x > lastChildRect.x) lastChildRect = normalized;
         } else {
           childrenMetrics[key] = null;
+          textMetrics[key] = null;
         }
       });
 
@@ -136,6 +189,7 @@ export const useElementAnatomy = (
             height: element.offsetHeight - (padding.top + padding.bottom + border.top + border.bottom),
         },
         children: childrenMetrics,
+        text: textMetrics,
         gap,
       });
     };
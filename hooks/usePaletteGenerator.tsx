@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useMemo } from 'react';
+import { defaultThemeColors, BrandThemeDefinition, ThemeColors } from '../Theme.tsx';
+import type { ColorScheme } from './useColorScheme.tsx';
+
+// --- COLOR MATH (sRGB ↔ OKLCH, WCAG contrast) ---
+// OKLCH is perceptual: equal steps in L look like equal steps in lightness whatever the hue,
+// so a brand hue can take over a Slate tier and still sit at the same visual weight.
+
+interface Oklch { l: number; c: number; h: number }
+type Rgb = [number, number, number]; // Linear sRGB, 0-1
+
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string) => HEX.test(value.trim());
+
+const toLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+const fromLinear = (v: number) => (v <= 0.0031308 ? 12.92 * v : 1.055 * v ** (1 / 2.4) - 0.055);
+
+const hexToRgb = (hex: string): Rgb => {
+  let digits = hex.trim().slice(1);
+  if (digits.length === 3) digits = digits.split('').map(d => d + d).join('');
+  return [0, 2, 4].map(i => toLinear(parseInt(digits.slice(i, i + 2), 16) / 255)) as Rgb;
+};
+
+const rgbToHex = (rgb: Rgb) => {
+  return `#${rgb.map(v => Math.round(Math.min(1, Math.max(0, fromLinear(v))) * 255).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+};
+
+const rgbToOklch = ([r, g, b]: Rgb): Oklch => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+  const c = Math.sqrt(A * A + B * B);
+  return { l: L, c, h: c < 1e-4 ? 0 : ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360 };
+};
+
+const oklchToRgb = ({ l: L, c, h }: Oklch): Rgb => {
+  const A = c * Math.cos((h * Math.PI) / 180);
+  const B = c * Math.sin((h * Math.PI) / 180);
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.2914855480 * B) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ];
+};
+
+const inGamut = (rgb: Rgb) => rgb.every(v => v >= -1e-4 && v <= 1 + 1e-4);
+
+// Out-of-gamut colors keep their lightness and hue and give up chroma until sRGB can show them
+const toDisplayable = (color: Oklch): Rgb => {
+  const rgb = oklchToRgb(color);
+  if (inGamut(rgb)) return rgb;
+  let lo = 0;
+  let hi = color.c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2;
+    if (inGamut(oklchToRgb({ ...color, c: mid }))) lo = mid;
+    else hi = mid;
+  }
+  return oklchToRgb({ ...color, c: lo });
+};
+
+const luminance = ([r, g, b]: Rgb) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const contrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+export const getContrastRatio = (foreground: string, background: string) => {
+  return contrastRatio(luminance(hexToRgb(foreground)), luminance(hexToRgb(background)));
+};
+
+// The lightness (at this hue / chroma) that lands `target`:1 against a background, on the requested side of it.
+// Targets the side can't reach come back as the extreme (pure white / black-ish).
+const solveLightness = (hue: number, chroma: number, against: number, target: number, darker: boolean) => {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    const lum = luminance(toDisplayable({ l: mid, c: chroma, h: hue }));
+    const onSide = darker ? lum < against : lum > against;
+    const enough = onSide && contrastRatio(lum, against) >= target;
+    // Darker: stay as light as the target allows. Lighter: stay as dark as it allows.
+    if (darker) {
+      if (enough) lo = mid;
+      else hi = mid;
+    } else if (enough) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return darker ? lo : hi;
+};
+
+// --- PALETTE ---
+
+export interface PaletteSeeds {
+  accent: string;   // The brand color: primary buttons, focus, accent tints
+  neutral?: string; // Tints the Base grays. Defaults to a whisper of the accent hue.
+}
+
+const getAt = (colors: any, path: string): string => path.split('.').reduce((node, key) => node?.[key], colors);
+
+const setAt = (colors: any, path: string, value: string) => {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  const node = keys.reduce((parent, key) => (parent[key] ??= {}), colors);
+  node[last] = value;
+};
+
+const leafPaths = (node: any, prefix = ''): string[] => {
+  return Object.entries(node).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'object' && value !== null ? leafPaths(value, path) : [path];
+  });
+};
+
+// What each tier is read against: Base and every Surface sit on the page, Content sits on its own family's Surface
+const backgroundOf = (path: string, colors: any) => {
+  const [family, tier, step] = path.split('.');
+  if (family === 'Base' || tier === 'Surface') return 'Base.Surface.1';
+  const surface = `${family}.Surface.${step}`;
+  return getAt(colors, surface) ? surface : `${family}.Surface.1`;
+};
+
+// Page first, then surfaces, then the things drawn on them
+const tierOrder = (path: string) => (path === 'Base.Surface.1' ? 0 : path.includes('.Surface.') ? 1 : path.includes('.Border.') ? 2 : 3);
+
+const UI_CONTRAST = 3;   // WCAG non-text minimum: a button edge against the page
+const TEXT_CONTRAST = 4.5; // WCAG AA body text
+const MIN_HOVER_CONTRAST = 1.25; // Hover vs resting surface: less and it looks like no change at all
+const ACHROMATIC = 0.01;    // OKLCH C: below this a seed is white / gray / black and its hue means nothing
+
+const generateMode = (mode: ColorScheme, accent: Oklch, neutral: Oklch): ThemeColors => {
+  const reference = defaultThemeColors[mode].Color;
+  const colors: any = {};
+  const refLum = (path: string) => luminance(hexToRgb(getAt(reference, path)));
+  const lum = (path: string) => luminance(hexToRgb(getAt(colors, path)));
+  const paint = (path: string, color: Oklch) => setAt(colors, path, rgbToHex(toDisplayable(color)));
+
+  // The main button: the seed itself, nudged only as far as legibility needs
+  const paintAccent = () => {
+    const page = lum('Base.Surface.1');
+    const pageIsLight = page > 0.18;
+    const surface = { ...accent };
+    if (contrastRatio(luminance(toDisplayable(surface)), page) < UI_CONTRAST) {
+      surface.l = solveLightness(surface.h, surface.c, page, UI_CONTRAST, pageIsLight);
+    }
+    // White or ink on top, whichever reads better
+    const ink = { l: 0.21, c: Math.min(0.04, neutral.c), h: neutral.h };
+    const candidates = [{ l: 1, c: 0, h: 0 }, ink];
+    const surfaceLum = luminance(toDisplayable(surface));
+    const content = candidates.reduce((best, candidate) =>
+      contrastRatio(luminance(toDisplayable(candidate)), surfaceLum) > contrastRatio(luminance(toDisplayable(best)), surfaceLum) ? candidate : best);
+    const contentLum = luminance(toDisplayable(content));
+    if (contrastRatio(surfaceLum, contentLum) < TEXT_CONTRAST) {
+      surface.l = solveLightness(surface.h, surface.c, contentLum, TEXT_CONTRAST, content !== ink);
+    }
+    paint('Accent.Surface.1', surface);
+    paint('Accent.Content.1', content);
+
+    // Hover moves the way Slate's does (at most 0.1 L), and turns around if that would lose the label.
+    // Near black or white an L step barely shows, so it's pushed until it clears MIN_HOVER_CONTRAST,
+    // and a surface already at the end of the scale (a black seed) turns around too.
+    const shift = rgbToOklch(hexToRgb(reference.Accent.Surface['3'])).l - rgbToOklch(hexToRgb(reference.Accent.Surface['1'])).l;
+    const step = Math.max(-0.1, Math.min(0.1, shift));
+    const restingLum = luminance(toDisplayable(surface));
+    const distinct = (hover: Oklch) => contrastRatio(luminance(toDisplayable(hover)), restingLum) >= MIN_HOVER_CONTRAST;
+    const legible = (hover: Oklch) => contrastRatio(luminance(toDisplayable(hover)), contentLum) >= TEXT_CONTRAST;
+    const nudge = (hover: Oklch, darker: boolean): Oklch => distinct(hover)
+      ? hover
+      : { ...hover, l: solveLightness(hover.h, hover.c, restingLum, MIN_HOVER_CONTRAST, darker) };
+    const hovers = [step, -step].map(delta => nudge({ ...surface, l: Math.min(1, Math.max(0, surface.l + delta)) }, delta < 0));
+    const hover = hovers.find(h => distinct(h) && legible(h)) ?? hovers.find(distinct) ?? hovers[0];
+    paint('Accent.Surface.3', hover);
+  };
+
+  const paths = leafPaths(reference).sort((a, b) => tierOrder(a) - tierOrder(b));
+  for (const path of paths) {
+    if (getAt(colors, path)) continue; // Already painted alongside the accent
+    if (path === 'Accent.Surface.1' || path === 'Accent.Content.1' || path === 'Accent.Surface.3') {
+      paintAccent();
+      continue;
+    }
+    const ref = rgbToOklch(hexToRgb(getAt(reference, path)));
+    const family = path.split('.')[0];
+    const hue = family === 'Base' ? neutral.h : family === 'Accent' || family === 'Focus' ? accent.h : ref.h;
+    // A gray seed has no hue to lend: its families stay gray instead of picking up hue 0 (red)
+    const chroma = family === 'Base' ? Math.min(ref.c, neutral.c)
+      : family === 'Accent' ? accent.c
+      : family === 'Focus' && accent.c === 0 ? 0
+      : ref.c;
+
+    if (path === 'Base.Surface.1') {
+      paint(path, { l: ref.l, c: chroma, h: hue }); // The page keeps Slate's lightness; everything else is measured from it
+      continue;
+    }
+    // Same contrast against the same kind of background as the Slate tier had
+    const background = backgroundOf(path, reference);
+    const target = contrastRatio(refLum(path), refLum(background));
+    const darker = refLum(path) < refLum(background);
+    paint(path, { l: solveLightness(hue, chroma, lum(background), target, darker), c: chroma, h: hue });
+  }
+
+  return { Color: colors } as ThemeColors;
+};
+
+// Near-grays snap to true gray, so nothing downstream tints itself with their meaningless hue
+const toSeed = (hex: string): Oklch => {
+  const color = rgbToOklch(hexToRgb(hex));
+  return color.c < ACHROMATIC ? { ...color, c: 0 } : color;
+};
+
+// One or two seeds → a complete light + dark brand, or null while a seed isn't a valid hex color
+export const generateBrandTheme = (seeds: PaletteSeeds, label?: string): BrandThemeDefinition | null => {
+  if (!isHexColor(seeds.accent) || (seeds.neutral && !isHexColor(seeds.neutral))) return null;
+  const accent = toSeed(seeds.accent);
+  // Without a neutral seed the grays borrow the accent hue at Slate's (low) chroma, or stay pure gray
+  const neutral = seeds.neutral ? toSeed(seeds.neutral) : { ...accent, c: accent.c === 0 ? 0 : 1 };
+  return {
+    label,
+    light: generateMode('light', accent, neutral),
+    dark: generateMode('dark', accent, neutral),
+  };
+};
+
+// --- CONTRAST REPORT ---
+
+const CONTRAST_PAIRS: [string, string][] = [
+  ['Base.Content.1', 'Base.Surface.1'],
+  ['Base.Content.2', 'Base.Surface.1'],
+  ['Base.Content.3', 'Base.Surface.1'],
+  ['Accent.Content.1', 'Accent.Surface.1'],
+  ['Accent.Content.2', 'Accent.Surface.2'],
+  ['Focus.Content.1', 'Base.Surface.1'],
+  ['Error.Content.1', 'Error.Surface.1'],
+  ['Success.Content.2', 'Success.Surface.2'],
+];
+
+export interface ContrastCheck {
+  mode: ColorScheme;
+  foreground: string; // Token path, e.g. 'Base.Content.1'
+  background: string;
+  reference: number;  // Ratio in the Slate defaults
+  generated: number;
+}
+
+// Key text / surface pairs, generated vs the Slate defaults
+export const checkPaletteContrast = (definition: BrandThemeDefinition): ContrastCheck[] => {
+  return (['light', 'dark'] as ColorScheme[]).flatMap(mode =>
+    CONTRAST_PAIRS.map(([foreground, background]) => ({
+      mode,
+      foreground,
+      background,
+      reference: getContrastRatio(getAt(defaultThemeColors[mode].Color, foreground), getAt(defaultThemeColors[mode].Color, background)),
+      generated: getContrastRatio(getAt(definition[mode].Color, foreground), getAt(definition[mode].Color, background)),
+    }))
+  );
+};
+
+/**
+ * 🎨 Palette Generator
+ * Derives a whole brand (every Color tier, light and dark) from one or two seed colors,
+ * matching the contrast of each Slate tier in OKLCH. Returns null while a seed is mid-typing.
+ */
+export const usePaletteGenerator = (seeds: PaletteSeeds, label?: string) => {
+  return useMemo(() => {
+    const definition = generateBrandTheme(seeds, label);
+    return definition ? { definition, contrast: checkPaletteContrast(definition) } : null;
+  }, [seeds.accent, seeds.neutral, label]);
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useMemo, useRef, createContext, useContext } from 'react';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta'];
+const KEY_ALIASES: Record<string, string> = {
+  control: 'ctrl', cmd: 'meta', command: 'meta', option: 'alt',
+  esc: 'escape', return: 'enter', ' ': 'space', spacebar: 'space',
+};
+
+const normalizeKey = (key: string) => {
+  const lower = key.toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+};
+
+// 'Mod+S' → 'ctrl+s' ('meta+s' on Mac). One spelling per combo so lookups and conflict checks agree.
+export const normalizeShortcut = (shortcut: string): string => {
+  const parts = shortcut.split('+').map(part => part.trim()).filter(Boolean)
+    .map(part => (part.toLowerCase() === 'mod' ? (isMac ? 'meta' : 'ctrl') : normalizeKey(part)));
+  const key = parts.filter(part => !MODIFIERS.includes(part)).pop() ?? '';
+  return [...MODIFIERS.filter(mod => parts.includes(mod)), key].join('+');
+};
+
+const eventToShortcut = (e: KeyboardEvent): string | null => {
+  const key = normalizeKey(e.key);
+  if (MODIFIERS.includes(key)) return null; // A modifier on its own
+  const held = { ctrl: e.ctrlKey, alt: e.altKey, shift: e.shiftKey, meta: e.metaKey } as Record<string, boolean>;
+  return [...MODIFIERS.filter(mod => held[mod]), key].join('+');
+};
+
+const ARIA_NAMES: Record<string, string> = { ctrl: 'Control', alt: 'Alt', shift: 'Shift', meta: 'Meta' };
+const MAC_SYMBOLS: Record<string, string> = { ctrl: '⌃', alt: '⌥', shift: '⇧', meta: '⌘' };
+const PC_NAMES: Record<string, string> = { ctrl: 'Ctrl', alt: 'Alt', shift: 'Shift', meta: 'Win' };
+
+const formatKey = (key: string) => (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+
+// 'mod+s' → 'Control+S' for aria-keyshortcuts
+export const toAriaKeyShortcuts = (shortcut: string) => {
+  return normalizeShortcut(shortcut).split('+').map(part => ARIA_NAMES[part] ?? formatKey(part)).join('+');
+};
+
+// 'mod+s' → '⌘S' on Mac, 'Ctrl+S' elsewhere
+export const formatShortcutHint = (shortcut: string) => {
+  const parts = normalizeShortcut(shortcut).split('+');
+  return isMac
+    ? parts.map(part => MAC_SYMBOLS[part] ?? formatKey(part)).join('')
+    : parts.map(part => PC_NAMES[part] ?? formatKey(part)).join('+');
+};
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+interface ShortcutBinding {
+  label: string;
+  handler: () => void;
+}
+
+interface ShortcutRegistry {
+  register: (shortcut: string, binding: ShortcutBinding) => () => void;
+}
+
+// One keydown listener per registry, attached only while something is bound.
+const createShortcutRegistry = (report: (message: string) => void): ShortcutRegistry => {
+  const bindings = new Map<string, ShortcutBinding[]>();
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.repeat) return;
+    const combo = eventToShortcut(e);
+    const stack = combo ? bindings.get(combo) : undefined;
+    if (!stack?.length) return;
+    // Plain keys belong to whatever field has focus; combos with Ctrl / Alt / Meta work everywhere
+    if (isEditableTarget(e.target) && !(e.ctrlKey || e.altKey || e.metaKey)) return;
+    e.preventDefault();
+    stack[stack.length - 1].handler(); // Newest binding wins
+  };
+
+  return {
+    register: (shortcut, binding) => {
+      const combo = normalizeShortcut(shortcut);
+      const stack = bindings.get(combo) ?? [];
+      if (stack.length) {
+        report(`Warning: shortcut conflict on "${shortcut}". "${binding.label}" takes it over from "${stack[stack.length - 1].label}".`);
+      }
+      if (bindings.size === 0) window.addEventListener('keydown', handleKeyDown);
+      bindings.set(combo, [...stack, binding]);
+
+      return () => {
+        const rest = (bindings.get(combo) ?? []).filter(b => b !== binding);
+        if (rest.length) bindings.set(combo, rest);
+        else bindings.delete(combo);
+        if (bindings.size === 0) window.removeEventListener('keydown', handleKeyDown);
+      };
+    },
+  };
+};
+
+// Conflicts are only reported through a scope's onConflict; elsewhere the newest binding just wins
+const ignoreConflict = () => {};
+
+// Buttons outside any ShortcutScope still work, they just share this app-wide registry
+const ShortcutContext = createContext<ShortcutRegistry>(createShortcutRegistry(ignoreConflict));
+
+/**
+ * ⌨️ Shortcut Scope
+ * Owns a set of keyboard shortcuts (listened for on the whole window while mounted)
+ * and reports two bindings fighting over the same combo through `onConflict`.
+ */
+export const ShortcutScope = ({ onConflict, children }: React.PropsWithChildren<{ onConflict?: (message: string) => void }>) => {
+  const onConflictRef = useRef(onConflict);
+  useEffect(() => {
+    onConflictRef.current = onConflict;
+  }, [onConflict]);
+
+  const registry = useMemo(
+    () => createShortcutRegistry((message) => (onConflictRef.current ?? ignoreConflict)(message)),
+    []
+  );
+
+  return (
+    <ShortcutContext.Provider value={registry}>
+      {children}
+    </ShortcutContext.Provider>
+  );
+};
+
+/**
+ * Binds `shortcut` ("mod+s", "shift+?", "escape") to `handler` in the nearest ShortcutScope.
+ * `label` names the binding in conflict reports.
+ */
+export const useShortcut = (
+  shortcut: string | undefined,
+  handler: () => void,
+  { label, enabled = true }: { label?: string; enabled?: boolean } = {}
+) => {
+  const registry = useContext(ShortcutContext);
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!shortcut?.trim() || !enabled) return;
+    return registry.register(shortcut, { label: label ?? shortcut, handler: () => handlerRef.current() });
+  }, [registry, shortcut, label, enabled]);
+};
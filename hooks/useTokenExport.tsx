@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useMemo } from 'react';
+import { useTheme, rawTheme, isResponsiveObject, resolveResponsive, ThemeColors } from '../Theme.tsx';
+import type { ColorScheme } from './useColorScheme.tsx';
+import type { Breakpoint } from './useBreakpoint.tsx';
+
+// --- DTCG (W3C Design Tokens) EXPORT ---
+// Layout follows the multi-set convention Tokens Studio and Style Dictionary read:
+// one token set per concern ('core', 'theme/light', 'theme/dark'), plus $themes saying
+// which sets make up each mode. Values use the draft string forms ('16px', '100ms', '#RRGGBB').
+
+export interface DtcgToken {
+  $type: string;
+  $value: any;
+  $description?: string;
+  $extensions?: Record<string, any>;
+}
+
+// Breakpoint values that differ from the default ($value is desktop) live here
+export const MODES_EXTENSION = 'com.sus.modes';
+
+const BREAKPOINTS: Breakpoint[] = ['mobile', 'tablet', 'desktop'];
+
+// 'Space.XS' → { Space: { XS: token } }, so flat keys nest like every other group
+const setAt = (tree: any, path: string[], token: DtcgToken) => {
+  const last = path.pop() as string;
+  const node = path.reduce((parent, key) => (parent[key] ??= {}), tree);
+  node[last] = token;
+};
+
+const flatGroup = (group: Record<string, string>, $type: string, convert: (value: string) => any = value => value) => {
+  const tree = {};
+  for (const [key, value] of Object.entries(group)) setAt(tree, key.split('.'), { $type, $value: convert(value) });
+  return tree;
+};
+
+// 'rgb(0 0 0 / 0.05)' → '#0000000D'
+const toHexColor = (color: string) => {
+  const match = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:\s*[/,]\s*([\d.]+))?\s*\)$/.exec(color.trim());
+  if (!match) return color;
+  const [r, g, b] = match.slice(1, 4).map(Number);
+  const alpha = match[4] === undefined ? 1 : Number(match[4]);
+  const hex = (n: number) => Math.round(n).toString(16).padStart(2, '0').toUpperCase();
+  return `#${hex(r)}${hex(g)}${hex(b)}${alpha < 1 ? hex(alpha * 255) : ''}`;
+};
+
+// Splits on a separator, but not inside parentheses ('0 1px rgb(0 0 0 / 0.1), inset ...')
+const splitTopLevel = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === separator && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// CSS box-shadow → DTCG shadow value (an array when there are several layers)
+const toShadow = (css: string) => {
+  const layers = splitTopLevel(css, ',').map(layer => {
+    const parts = splitTopLevel(layer, ' ');
+    const inset = parts[0] === 'inset';
+    const lengths = parts.filter(part => /^-?[\d.]+(px)?$/.test(part)).map(part => (part === '0' ? '0px' : part));
+    const color = parts.find(part => part !== 'inset' && !lengths.includes(part) && part !== '0') ?? '#000000';
+    const [offsetX, offsetY, blur = '0px', spread = '0px'] = lengths;
+    return { color: toHexColor(color), offsetX, offsetY, blur, spread, ...(inset ? { inset: true } : {}) };
+  });
+  return layers.length === 1 ? layers[0] : layers;
+};
+
+// "'Inter', sans-serif" → ['Inter', 'sans-serif']
+const toFontFamily = (css: string) => css.split(',').map(name => name.trim().replace(/^['"]|['"]$/g, ''));
+
+const toTypography = (style: Record<string, any>, breakpoint: Breakpoint) => ({
+  fontFamily: toFontFamily(style.fontFamily),
+  fontSize: resolveResponsive(style.fontSize, breakpoint),
+  fontWeight: style.fontWeight,
+  letterSpacing: style.letterSpacing,
+  lineHeight: resolveResponsive(style.lineHeight, breakpoint),
+});
+
+// A text style has a fontSize; anything else is a group of them
+const typographyGroup = (node: any): any => {
+  if ('fontSize' in node) {
+    const token: DtcgToken = { $type: 'typography', $value: toTypography(node, 'desktop') };
+    if (isResponsiveObject(node.fontSize) || isResponsiveObject(node.lineHeight)) {
+      token.$extensions = {
+        [MODES_EXTENSION]: Object.fromEntries(BREAKPOINTS.map(bp => [bp, toTypography(node, bp)])),
+      };
+    }
+    return token;
+  }
+  return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, typographyGroup(child)]));
+};
+
+const colorGroup = (node: any): any => {
+  if (typeof node === 'string') return { $type: 'color', $value: node };
+  return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, colorGroup(child)]));
+};
+
+// Both modes of a brand (plus the shared core tokens) as one DTCG document
+export const toDtcgTokens = (colors: Record<ColorScheme, ThemeColors>) => {
+  const core = {
+    Type: typographyGroup(rawTheme.Type),
+    ...flatGroup(rawTheme.spacing, 'dimension'),
+    ...flatGroup(rawTheme.radius, 'dimension'),
+    ...flatGroup(rawTheme.effects, 'shadow', toShadow),
+    ...flatGroup(rawTheme.time, 'duration'),
+  };
+  return {
+    core,
+    'theme/light': colorGroup(colors.light),
+    'theme/dark': colorGroup(colors.dark),
+    $themes: (['light', 'dark'] as ColorScheme[]).map(mode => ({
+      id: mode,
+      name: mode === 'light' ? 'Light' : 'Dark',
+      selectedTokenSets: { core: 'source', [`theme/${mode}`]: 'enabled' },
+    })),
+    $metadata: { tokenSetOrder: ['core', 'theme/light', 'theme/dark'] },
+  };
+};
+
+/**
+ * 📦 Token Export
+ * The active brand's tokens as a DTCG JSON string, plus a file name to save it under.
+ */
+export const useTokenExport = () => {
+  const { brands, brandName } = useTheme();
+  const brand = brands[brandName];
+  return useMemo(() => ({
+    json: JSON.stringify(toDtcgTokens({ light: brand.light, dark: brand.dark }), null, 2),
+    fileName: `${brandName}.tokens.json`,
+  }), [brand, brandName]);
+};
@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useCallback } from 'react';
+import { useTheme, rawTheme, defaultThemeColors, BrandThemeDefinition, ThemeColors, TokenOverrides } from '../Theme.tsx';
+import { MODES_EXTENSION } from './useTokenExport.tsx';
+import type { ColorScheme } from './useColorScheme.tsx';
+
+// --- TOKEN IMPORT (Tokens Studio, DTCG, Figma Variables) ---
+// Everything is flattened to dotted paths per mode, aliases are resolved inside the file
+// (no fetching), and then each SUS token looks for the source token with the same name.
+
+interface SourceToken {
+  path: string;  // As written in the file, e.g. 'color.base.surface.1'
+  type?: string; // 'color', 'spacing', 'typography'...
+  value: any;
+  modes?: Record<string, any>; // Per-breakpoint values from our own export
+}
+
+type TokenMap = Map<string, SourceToken>; // Keyed by lower-cased path
+
+export interface TokenImportResult {
+  colors: Record<ColorScheme, Record<string, string>>; // 'Color.Base.Surface.1' → value, per mode
+  tokens: TokenOverrides;
+  mapped: string[];    // SUS paths that got a value
+  missing: string[];   // SUS paths in a group the file covers, but without a value (defaults kept)
+  unmapped: string[];  // Source tokens that have no SUS home
+  problems: string[];  // Parse errors, broken aliases
+}
+
+const MODES: ColorScheme[] = ['light', 'dark'];
+
+// --- Flattening ---
+
+const isTokenNode = (node: any) => {
+  if (!node || typeof node !== 'object') return false;
+  if ('$value' in node) return true;
+  // Tokens Studio's legacy format: { value, type }
+  return 'value' in node && ('type' in node || typeof node.value !== 'object');
+};
+
+// DTCG / Tokens Studio tree → flat tokens. Group-level $type is inherited.
+const flattenTree = (node: any, prefix = '', inheritedType?: string, out: SourceToken[] = []) => {
+  const groupType = node.$type ?? node.type ?? inheritedType;
+  for (const [key, child] of Object.entries<any>(node)) {
+    if (key.startsWith('$') || !child || typeof child !== 'object') continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isTokenNode(child)) {
+      out.push({
+        path,
+        type: child.$type ?? child.type ?? groupType,
+        value: child.$value ?? child.value,
+        modes: child.$extensions?.[MODES_EXTENSION],
+      });
+    } else {
+      flattenTree(child, path, groupType, out);
+    }
+  }
+  return out;
+};
+
+// A top-level entry is a token set rather than a group when it's neither a token, nor typed,
+// nor named like a SUS group or color tier ('global', 'light' vs 'color', 'spacing', 'Base')
+const isTokenSet = (name: string, node: any) => {
+  if (!node || typeof node !== 'object' || isTokenNode(node)) return false;
+  if ('$type' in node || 'type' in node) return false;
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return !GROUP_NAMES[key] && !SUS_COLOR_TIERS.includes(key);
+};
+
+// A multi-set file keeps its sets apart so light and dark can pick theirs. Sets are declared
+// by $themes / $metadata, or (a plain Tokens Studio export) are simply the top-level entries.
+const readTokenSets = (doc: any): Record<string, SourceToken[]> => {
+  const entries = Object.entries<any>(doc).filter(([key]) => !key.startsWith('$'));
+  const declared = doc.$themes || doc.$metadata?.tokenSetOrder;
+  if (!declared && !(entries.length && entries.every(([name, node]) => isTokenSet(name, node)))) {
+    return { default: flattenTree(doc) };
+  }
+  const order: string[] = doc.$metadata?.tokenSetOrder ?? entries.map(([key]) => key);
+  return Object.fromEntries(order.filter(name => doc[name]).map(name => [name, flattenTree(doc[name])]));
+};
+
+// Which sets make up a mode: the matching $theme if there is one, otherwise every set not named for the other mode
+const setsForMode = (doc: any, setNames: string[], mode: ColorScheme) => {
+  const theme = doc.$themes?.find((t: any) => new RegExp(mode, 'i').test(t.name ?? t.id ?? ''));
+  if (theme?.selectedTokenSets) {
+    return setNames.filter(name => theme.selectedTokenSets[name] && theme.selectedTokenSets[name] !== 'disabled');
+  }
+  const other = mode === 'light' ? /dark/i : /light/i;
+  return setNames.filter(name => !other.test(name));
+};
+
+// Figma's { r, g, b, a } (0-1) → '#RRGGBB' / '#RRGGBBAA'
+const figmaColor = ({ r, g, b, a = 1 }: { r: number; g: number; b: number; a?: number }) => {
+  const hex = (n: number) => Math.round(n * 255).toString(16).padStart(2, '0').toUpperCase();
+  return `#${hex(r)}${hex(g)}${hex(b)}${a < 1 ? hex(a) : ''}`;
+};
+
+// Figma Variables REST export ({ meta: { variables, variableCollections } }) → tokens per mode
+const readFigmaVariables = (doc: any): Record<ColorScheme, SourceToken[]> => {
+  const { variables = {}, variableCollections = {} } = doc.meta ?? doc;
+  const result: Record<ColorScheme, SourceToken[]> = { light: [], dark: [] };
+  const pathOf = (variable: any) => String(variable.name).split('/').join('.');
+
+  for (const variable of Object.values<any>(variables)) {
+    const collection = variableCollections[variable.variableCollectionId];
+    const modes: { modeId: string; name: string }[] = collection?.modes ?? [];
+    for (const mode of MODES) {
+      // A collection without a dark mode serves both
+      const match = modes.find(m => new RegExp(mode, 'i').test(m.name))
+        ?? modes.find(m => m.modeId === collection?.defaultModeId)
+        ?? modes[0];
+      const raw = match ? variable.valuesByMode?.[match.modeId] : Object.values(variable.valuesByMode ?? {})[0];
+      if (raw === undefined) continue;
+      const value = raw?.type === 'VARIABLE_ALIAS'
+        ? (variables[raw.id] ? `{${pathOf(variables[raw.id])}}` : `{${raw.id}}`)
+        : variable.resolvedType === 'COLOR' && typeof raw === 'object' ? figmaColor(raw) : raw;
+      result[mode].push({ path: pathOf(variable), type: variable.resolvedType === 'COLOR' ? 'color' : variable.resolvedType === 'FLOAT' ? 'dimension' : undefined, value });
+    }
+  }
+  return result;
+};
+
+const toTokenMap = (tokens: SourceToken[]): TokenMap => new Map(tokens.map(token => [token.path.toLowerCase(), token]));
+
+// --- Aliases ---
+
+const ALIAS = /\{([^}]+)\}/g;
+
+// '{color.slate.900}' → '#0F172A', following chains. Aliases inside composites resolve field by field.
+const resolveAliases = (value: any, map: TokenMap, problems: Set<string>, seen: string[] = []): any => {
+  if (typeof value === 'string') {
+    const whole = /^\{([^}]+)\}$/.exec(value.trim());
+    if (whole) {
+      const target = whole[1].trim();
+      if (seen.includes(target.toLowerCase())) {
+        problems.add(`Alias cycle: ${[...seen, target.toLowerCase()].join(' → ')}`);
+        return undefined;
+      }
+      const token = map.get(target.toLowerCase());
+      if (!token) {
+        problems.add(`Unresolved alias {${target}}`);
+        return undefined;
+      }
+      return resolveAliases(token.value, map, problems, [...seen, target.toLowerCase()]);
+    }
+    if (/\{[^}]+\}/.test(value)) {
+      problems.add(`Can't evaluate "${value}" (aliases inside expressions aren't supported)`);
+      return undefined;
+    }
+    return value;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, resolveAliases(field, map, problems, seen)]));
+  }
+  return value;
+};
+
+// --- Mapping onto SUS ---
+
+// Names design tools use for the groups SUS has
+const GROUP_NAMES: Record<string, string> = {
+  color: 'color', colors: 'color', colour: 'color',
+  space: 'space', spacing: 'space',
+  radius: 'radius', radii: 'radius', borderradius: 'radius',
+  type: 'type', typography: 'type', font: 'type', text: 'type',
+};
+
+// Group for tokens whose path doesn't say (a 'light' set with 'Base.Surface.1' in it)
+const TYPE_GROUPS: Record<string, string> = { color: 'color', spacing: 'space', borderRadius: 'radius', typography: 'type' };
+
+// 'spacing.space.L' and 'Space.L' both → 'space:l'; 'Color.Base.Surface.1' → 'color:base.surface.1'
+const matchKey = (path: string, type?: string) => {
+  const parts = path.split('.').map(part => part.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  let group = GROUP_NAMES[parts[0]];
+  let rest = group ? parts.slice(1) : parts;
+  if (!group) group = (type && TYPE_GROUPS[type]) || '';
+  while (rest.length > 1 && GROUP_NAMES[rest[0]] === group) rest = rest.slice(1);
+  return `${group}:${rest.join('.')}`;
+};
+
+const colorPaths = (node: any, prefix: string): string[] => {
+  return Object.entries(node).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null ? colorPaths(value, `${prefix}.${key}`) : [`${prefix}.${key}`]);
+};
+
+const typeStylePaths = (node: any, prefix: string): string[] => {
+  if ('fontSize' in node) return [prefix];
+  return Object.entries(node).flatMap(([key, child]) => typeStylePaths(child, `${prefix}.${key}`));
+};
+
+const SUS_COLOR_PATHS = colorPaths(defaultThemeColors.light.Color, 'Color');
+const SUS_COLOR_TIERS = Object.keys(defaultThemeColors.light.Color).map(tier => tier.toLowerCase());
+const SUS_SPACING = Object.keys(rawTheme.spacing);
+const SUS_RADIUS = Object.keys(rawTheme.radius);
+const SUS_TYPE_PATHS = typeStylePaths(rawTheme.Type, 'Type');
+
+// 16 / '16' → '16px', { value: 16, unit: 'px' } → '16px'
+const toDimension = (value: any) => {
+  if (typeof value === 'number' || /^-?[\d.]+$/.test(String(value))) return `${value}px`;
+  if (value && typeof value === 'object' && 'value' in value) return `${value.value}${value.unit ?? 'px'}`;
+  return String(value);
+};
+
+// Tokens Studio writes letter spacing as a percentage of the font size
+const toLetterSpacing = (value: any) => {
+  const percent = /^(-?[\d.]+)%$/.exec(String(value));
+  return percent ? `${Number(percent[1]) / 100}em` : toDimension(value);
+};
+
+// Tokens Studio writes line height as a percentage too; SUS keeps unitless ratios unitless
+const toLineHeight = (value: any) => {
+  const percent = /^([\d.]+)%$/.exec(String(value));
+  if (percent) return Number(percent[1]) / 100;
+  return typeof value === 'number' ? value : toDimension(value);
+};
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100, extralight: 200, light: 300, regular: 400, normal: 400,
+  medium: 500, semibold: 600, bold: 700, extrabold: 800, black: 900,
+};
+
+const toFontWeight = (value: any) => {
+  return Number(value) || FONT_WEIGHTS[String(value).toLowerCase().replace(/[^a-z]/g, '')] || value;
+};
+
+const toFontFamily = (value: any) => {
+  const names: string[] = Array.isArray(value) ? value : [String(value)];
+  return names.map(name => (/\s/.test(name) && !/^['"]/.test(name) ? `'${name}'` : name)).join(', ');
+};
+
+// Only the fields the source sets; the rest of the SUS style stays as it is
+const toTypeStyle = (value: any) => {
+  const style: Record<string, any> = {};
+  if (!value || typeof value !== 'object') return style;
+  if (value.fontFamily !== undefined) style.fontFamily = toFontFamily(value.fontFamily);
+  if (value.fontSize !== undefined) style.fontSize = toDimension(value.fontSize);
+  if (value.fontWeight !== undefined) style.fontWeight = toFontWeight(value.fontWeight);
+  if (value.lineHeight !== undefined) style.lineHeight = toLineHeight(value.lineHeight);
+  if (value.letterSpacing !== undefined) style.letterSpacing = toLetterSpacing(value.letterSpacing);
+  return style;
+};
+
+// Per-breakpoint typography (our own export's $extensions) comes back as responsive fields
+const toResponsiveTypeStyle = (token: SourceToken, value: any) => {
+  const style = toTypeStyle(value);
+  if (!token.modes) return style;
+  for (const field of ['fontSize', 'lineHeight'] as const) {
+    const perBreakpoint = Object.fromEntries(Object.entries<any>(token.modes).map(([bp, modeValue]) => [bp, toTypeStyle(modeValue)[field]]));
+    if (new Set(Object.values(perBreakpoint)).size > 1) style[field] = perBreakpoint;
+  }
+  return style;
+};
+
+const setAt = (tree: any, path: string[], value: any) => {
+  const last = path.pop() as string;
+  const node = path.reduce((parent, key) => (parent[key] ??= {}), tree);
+  node[last] = value;
+};
+
+/**
+ * Reads a Tokens Studio, DTCG or Figma Variables JSON export and maps it onto the SUS tokens.
+ * Never throws: anything it can't use ends up in `problems` or `unmapped`.
+ */
+export const importTokens = (json: string): TokenImportResult => {
+  const result: TokenImportResult = { colors: { light: {}, dark: {} }, tokens: {}, mapped: [], missing: [], unmapped: [], problems: [] };
+
+  let doc: any;
+  try {
+    doc = JSON.parse(json);
+  } catch (err) {
+    result.problems.push(`Not valid JSON: ${(err as Error).message}`);
+    return result;
+  }
+  if (!doc || typeof doc !== 'object') {
+    result.problems.push('Expected a JSON object');
+    return result;
+  }
+
+  // Same tokens, two views: what light sees and what dark sees
+  const perMode: Record<ColorScheme, TokenMap> = { light: new Map(), dark: new Map() };
+  if (doc.meta?.variables || doc.variables) {
+    const figma = readFigmaVariables(doc);
+    for (const mode of MODES) perMode[mode] = toTokenMap(figma[mode]);
+  } else {
+    const sets = readTokenSets(doc);
+    for (const mode of MODES) {
+      perMode[mode] = toTokenMap(setsForMode(doc, Object.keys(sets), mode).flatMap(name => sets[name]));
+    }
+  }
+  if (!perMode.light.size && !perMode.dark.size) {
+    result.problems.push('No tokens found (expected $value / value entries or Figma variables)');
+    return result;
+  }
+
+  const problems = new Set<string>();
+  const used = new Set<string>();
+  const lookup: Record<ColorScheme, Map<string, SourceToken>> = { light: new Map(), dark: new Map() };
+  for (const mode of MODES) {
+    for (const token of perMode[mode].values()) lookup[mode].set(matchKey(token.path, token.type), token);
+  }
+
+  // Pulls one SUS path out of a mode; records the source token as used
+  const take = (mode: ColorScheme, susPath: string) => {
+    const token = lookup[mode].get(matchKey(susPath));
+    if (!token) return null;
+    used.add(token.path.toLowerCase()); // It has a home even if its alias turns out broken
+    const value = resolveAliases(token.value, perMode[mode], problems);
+    return value === undefined ? null : { token, value };
+  };
+
+  // Colors: per mode
+  for (const mode of MODES) {
+    for (const path of SUS_COLOR_PATHS) {
+      const hit = take(mode, path);
+      if (hit && typeof hit.value === 'string') {
+        result.colors[mode][path] = hit.value;
+        result.mapped.push(`${mode}.${path}`);
+      }
+    }
+  }
+  const colorCount = Object.keys(result.colors.light).length + Object.keys(result.colors.dark).length;
+  if (colorCount) {
+    for (const mode of MODES) {
+      result.missing.push(...SUS_COLOR_PATHS.filter(path => !(path in result.colors[mode])).map(path => `${mode}.${path}`));
+    }
+  }
+
+  // Everything else isn't mode-specific: light's view wins
+  const group = (keys: string[], name: 'spacing' | 'radius') => {
+    const values: Record<string, string> = {};
+    for (const key of keys) {
+      const hit = take('light', key);
+      if (hit) values[key] = toDimension(hit.value);
+    }
+    if (!Object.keys(values).length) return;
+    result.tokens[name] = values;
+    result.mapped.push(...Object.keys(values).map(key => `${name}.${key}`));
+    result.missing.push(...keys.filter(key => !(key in values)).map(key => `${name}.${key}`));
+  };
+  group(SUS_SPACING, 'spacing');
+  group(SUS_RADIUS, 'radius');
+
+  const typeOverrides = {};
+  const typeMapped: string[] = [];
+  for (const path of SUS_TYPE_PATHS) {
+    const hit = take('light', path);
+    if (!hit) continue;
+    const style = toResponsiveTypeStyle(hit.token, hit.value);
+    if (!Object.keys(style).length) continue;
+    setAt(typeOverrides, path.split('.').slice(1), style);
+    typeMapped.push(path);
+  }
+  if (typeMapped.length) {
+    result.tokens.Type = typeOverrides;
+    result.mapped.push(...typeMapped);
+    result.missing.push(...SUS_TYPE_PATHS.filter(path => !typeMapped.includes(path)));
+  }
+
+  // Anything neither mapped nor feeding an alias that was
+  const allTokens = new Map([...perMode.light, ...perMode.dark]);
+  const aliasTargets = new Set<string>();
+  for (const token of [...perMode.light.values(), ...perMode.dark.values()]) {
+    for (const match of JSON.stringify(token.value ?? '').matchAll(ALIAS)) aliasTargets.add(match[1].trim().toLowerCase());
+  }
+  result.unmapped = [...allTokens.values()]
+    .filter(token => !used.has(token.path.toLowerCase()) && !aliasTargets.has(token.path.toLowerCase()))
+    .map(token => token.path);
+  result.problems.push(...problems);
+
+  return result;
+};
+
+// Imported colors over the Slate defaults, so a partial file still makes a complete brand
+export const toImportedBrand = (colors: TokenImportResult['colors']): BrandThemeDefinition => {
+  const fill = (mode: ColorScheme): ThemeColors => {
+    const theme = JSON.parse(JSON.stringify(defaultThemeColors[mode]));
+    for (const [path, value] of Object.entries(colors[mode])) setAt(theme, path.split('.'), value);
+    return theme;
+  };
+  return { label: 'Imported', light: fill('light'), dark: fill('dark') };
+};
+
+export const IMPORTED_BRAND = 'imported';
+
+/**
+ * 📥 Token Import
+ * `applyImport` puts an import result live: colors become the "Imported" brand,
+ * spacing / radius / type become ThemeProvider token overrides. `resetImport` undoes both.
+ */
+export const useTokenImport = () => {
+  const { registerBrand, unregisterBrand, setBrandName, setTokenOverrides } = useTheme();
+
+  const applyImport = useCallback((result: TokenImportResult) => {
+    if (Object.keys(result.colors.light).length || Object.keys(result.colors.dark).length) {
+      registerBrand(IMPORTED_BRAND, toImportedBrand(result.colors));
+      setBrandName(IMPORTED_BRAND);
+    }
+    setTokenOverrides(Object.keys(result.tokens).length ? result.tokens : null);
+  }, [registerBrand, setBrandName, setTokenOverrides]);
+
+  const resetImport = useCallback(() => {
+    unregisterBrand(IMPORTED_BRAND);
+    setTokenOverrides(null);
+  }, [unregisterBrand, setTokenOverrides]);
+
+  return { importTokens, applyImport, resetImport };
+};
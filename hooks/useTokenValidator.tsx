@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useEffect, useRef } from 'react';
+
+export interface TokenIssue {
+  kind: 'unknown' | 'deprecated';
+  path: string;
+  replacement?: string; // Deprecated paths only: what to use instead
+}
+
+// Every path is reported once per page load; tools that subscribe later still get the backlog
+const issues: TokenIssue[] = [];
+const listeners = new Set<(issue: TokenIssue) => void>();
+
+export const describeTokenIssue = (issue: TokenIssue) => {
+  return issue.kind === 'deprecated'
+    ? `Token "${issue.path}" is deprecated, use "${issue.replacement}"`
+    : `Token "${issue.path}" doesn't exist`;
+};
+
+// Called by token() while components render, so listeners hear about it just after.
+// Dev builds only: production just resolves what it can. Nothing is logged on its own;
+// useTokenValidator is how an issue gets seen.
+export const reportTokenIssue = (issue: TokenIssue) => {
+  if (!import.meta.env.DEV) return;
+  if (issues.some(known => known.path === issue.path)) return;
+  issues.push(issue);
+  // Only those subscribed now: anyone joining before the microtask gets it from the backlog
+  const current = [...listeners];
+  queueMicrotask(() => current.forEach(listener => listener(issue)));
+};
+
+/**
+ * Dev tooling: hear about unknown or deprecated token() paths, starting with the
+ * ones that came up before this component mounted.
+ */
+export const useTokenValidator = (onIssue: (issue: TokenIssue) => void) => {
+  // Latest callback without re-subscribing (and replaying) on every render
+  const onIssueRef = useRef(onIssue);
+  useEffect(() => {
+    onIssueRef.current = onIssue;
+  });
+
+  useEffect(() => {
+    const listener = (issue: TokenIssue) => onIssueRef.current(issue);
+    issues.forEach(listener);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+};
@@ -4,16 +4,16 @@
 */
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { ThemeProvider, useTheme } from './Theme.tsx';
+import { ThemeProvider, cssVar } from './Theme.tsx';
 import { BreakpointProvider } from './hooks/useBreakpoint.tsx';
+import { ButtonVariantRegistry } from './hooks/useButtonVariants.tsx';
 import Welcome from './components/Page/Welcome.tsx';
 
 function App() {
-  const { theme } = useTheme();
-
+  // A CSS variable, so theme switches repaint the page without this effect running again
   React.useEffect(() => {
-    document.body.style.backgroundColor = theme.Color.Base.Surface[1];
-  }, [theme]);
+    document.body.style.backgroundColor = cssVar('Color.Base.Surface.1');
+  }, []);
 
   return (
       <Welcome />
@@ -24,9 +24,11 @@ const root = ReactDOM.createRoot(document.getElementById('root'));
 root.render(
   <React.StrictMode>
     <BreakpointProvider>
-      <ThemeProvider>
-        <App />
-      </ThemeProvider>
+      <ButtonVariantRegistry>
+        <ThemeProvider>
+          <App />
+        </ThemeProvider>
+      </ButtonVariantRegistry>
     </BreakpointProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -2,9 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
+import type { Breakpoint } from '../hooks/useBreakpoint.tsx';
+
+// --- Responsive Values ---
+// A plain value, or one value per breakpoint (e.g. { mobile: 's', desktop: 'l' })
+export type Responsive<T> = T | { [key in Breakpoint]?: T };
 
 // --- Window Management ---
-export type WindowId = 'control' | 'code' | 'console';
+export type WindowId = 'control' | 'code' | 'console' | 'palette';
 
 export interface WindowState {
   id: WindowId;
@@ -23,25 +28,91 @@ export interface LogEntry {
 }
 
 // --- Button Props for SUS Design System ---
-export type SusButtonType = 'primary' | 'secondary' | 'tertiary' | 'success' | 'fail' | 'ghost';
+export type SusBuiltInButtonType = 'primary' | 'secondary' | 'tertiary' | 'success' | 'fail' | 'ghost';
+// Any other name is a variant registered at runtime (see hooks/useButtonVariants.tsx)
+export type SusButtonType = SusBuiltInButtonType | (string & {});
 export type SusButtonSize = 'xl' | 'l' | 'm' | 's' | 'xs';
 export type SusButtonRadius = 'Sharp' | '4px' | '8px' | '16px' | 'Pill';
 export type SusButtonIconPlacement = 'none' | 'left' | 'right' | 'iconOnly';
 
+// 'visible' keeps one line at any width, 'truncate' ends in "…", 'wrap' grows to more lines
+export type SusButtonLabelOverflow = 'visible' | 'truncate' | 'wrap';
+
+// --- Layer Stack (bottom to top) ---
+export type SusButtonLayer = 'Surface' | 'State' | 'Focus' | 'Ripple' | 'Content' | 'Pending' | 'Badge';
+
+// --- Interaction Feel ---
+export type SusStateLayerCurve = 'liquid' | 'smooth' | 'snappy' | 'linear';
+
+// --- Button Groups ---
+export type SusButtonGroupOrientation = 'horizontal' | 'vertical';
+export type SusButtonGroupPosition = 'first' | 'middle' | 'last';
+export type SusButtonGroupSelection = 'none' | 'single' | 'multiple';
+
+// --- Split Button Menus ---
+export interface SusMenuItem {
+    label: string;
+    icon?: string; // Icon name (Phosphor)
+    disabled?: boolean;
+    onSelect?: () => void;
+}
+
+// --- Confirmation ---
+// 'hold' fires once a fill completes, 'double' asks "Are you sure?" and waits for a second click
+export type SusButtonConfirmMode = 'none' | 'hold' | 'double';
+
+// --- Button Badges ---
+export type SusButtonBadgeMode = 'count' | 'dot' | 'text';
+export type SusButtonBadgeTone = 'error' | 'signal' | 'success';
+// 'auto' sits next to the label, or on the top-right corner for dots and iconOnly buttons
+export type SusButtonBadgePlacement = 'auto' | 'inline' | 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
+
+export interface SusButtonBadge {
+    mode: SusButtonBadgeMode;
+    count?: number;   // 'count' mode, hidden at 0
+    max?: number;     // Counts above this read "99+" (default 99)
+    text?: string;    // 'text' mode, e.g. "New"
+    tone?: SusButtonBadgeTone;
+    placement?: SusButtonBadgePlacement;
+    label?: string;   // Screen reader text, e.g. "12 unread messages"
+}
+
 export interface MetaButtonProps {
     label: string;
     type: SusButtonType;
-    size: SusButtonSize;
-    radius: SusButtonRadius;
-    iconPlacement: SusButtonIconPlacement;
+    size: Responsive<SusButtonSize>;
+    radius: Responsive<SusButtonRadius>;
+    iconPlacement: Responsive<SusButtonIconPlacement>;
     icon: string; // Icon name (Phosphor)
+    // Long labels
+    labelOverflow?: SusButtonLabelOverflow;
+    maxWidth?: number; // px, 0 or unset for none
     // States
     disabled: boolean;
+    loading: boolean;
     forcedHover: boolean;
     forcedFocus: boolean;
     forcedActive: boolean;
-    // Legacy props (kept for potential override logic, but primarily unused in new system)
+    // Interaction Feel
+    hoverLift: number;        // px the button rises on hover
+    pressDepth: number;       // % the button shrinks when pressed
+    rippleDuration: number;   // ms
+    rippleOpacity: number;    // % (0-100)
+    stateLayerCurve: SusStateLayerCurve;
+    // Split Button
+    split: boolean;
+    menuItems: string[];
+    // Badge
+    badge?: SusButtonBadge;
+    // Keyboard shortcut, e.g. "mod+s"
+    shortcut?: string;
+    // Confirmation
+    confirm?: SusButtonConfirmMode;
+    confirmDuration?: number; // ms to hold
+    // Custom overrides, painted on top of the variant tokens (flagged "off-system" in Token View)
     customFill?: string;
     customColor?: string;
-    customRadius?: string;
+    customBorder?: string;
+    customHover?: string;
+    customRadius?: string; // Any CSS length; bare numbers are px
 }
\ No newline at end of file